@@ -5,7 +5,8 @@ import json from '@rollup/plugin-json';
 import preserveShebang from 'rollup-plugin-preserve-shebang';
 
 export default {
-  input: 'src/index.ts',
+  // 工作线程入口没有被静态导入，需要单独声明
+  input: ['src/index.ts', 'src/core/scan-worker.ts'],
   output: {
     dir: 'dist',
     format: 'es',
@@ -24,6 +25,7 @@ export default {
     'stream',
     'events',
     'url',
+    'worker_threads',
     
     // 外部依赖（不打包进去）
     'commander',
@@ -31,6 +33,7 @@ export default {
     'globby',
     'chalk',
     'fs-extra',
+    'ignore',
   ],
   plugins: [
     preserveShebang(), // 保留 shebang
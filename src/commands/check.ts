@@ -0,0 +1,80 @@
+import { Command } from 'commander';
+import path from 'path';
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import { ProjectMap } from '../core/scanner.js';
+import { BoundaryChecker, BoundaryViolation } from '../core/boundaries.js';
+import { resolveProjectContext } from '../core/config.js';
+
+/**
+ * check 命令实现
+ * 按配置项 boundaries 检查依赖边界，存在违规时以非零状态码退出
+ */
+export function createCheckCommand(): Command {
+  const checkCommand = new Command('check');
+
+  checkCommand
+    .description('检查依赖边界规则（存在违规时退出码为 1）')
+    .option('-p, --path <path>', '项目路径（默认：配置文件所在目录或当前目录）')
+    .option('-o, --output <output>', 'scan 的输出目录（默认：配置项 output 或 <项目路径>/ai-context）')
+    .option('--json', '以 JSON 格式输出违规列表')
+    .action(async (options) => {
+      try {
+        const { outputPath, config, configFile } = await resolveProjectContext(options);
+        const mapFile = path.join(outputPath, 'project-map.json');
+        const rules = config.boundaries ?? [];
+
+        if (rules.length === 0) {
+          console.log(chalk.yellow(`⚠️  未配置依赖边界规则${configFile ? ` (${configFile})` : ''}`));
+          console.log(chalk.gray('   在配置文件中添加 boundaries 规则，参见 README'));
+          return;
+        }
+
+        // 检查项目地图是否存在
+        if (!await fs.pathExists(mapFile)) {
+          console.log(chalk.yellow(`⚠️  未找到项目地图 (${mapFile})，请先运行 scan 命令`));
+          console.log(chalk.gray('   运行: ai-pilot scan'));
+          process.exit(1);
+        }
+
+        const projectMap: ProjectMap = await fs.readJson(mapFile);
+        const violations = new BoundaryChecker(projectMap, rules).check();
+
+        if (options.json) {
+          console.log(JSON.stringify(violations, null, 2));
+        } else {
+          console.log('');
+          if (violations.length === 0) {
+            console.log(chalk.green(`✅ 未发现违反依赖边界的导入（${rules.length} 条规则）`));
+          } else {
+            console.log(chalk.bold(`🚧 发现 ${violations.length} 处违反依赖边界的导入`));
+            violations.forEach(printViolation);
+          }
+          console.log('');
+        }
+
+        if (violations.length > 0) {
+          process.exit(1);
+        }
+
+      } catch (error: any) {
+        console.error(chalk.red('❌ 检查失败:'), error.message);
+        process.exit(1);
+      }
+    });
+
+  return checkCommand;
+}
+
+/**
+ * 打印违规导入（文件:行 → 被导入文件）
+ */
+function printViolation(violation: BoundaryViolation): void {
+  const location = violation.line ? `${violation.file}:${violation.line}` : violation.file;
+  const via = violation.via ? chalk.gray(` (经 ${violation.via})`) : '';
+
+  console.log('');
+  console.log(`  ${chalk.red('✗')} ${location}`);
+  console.log(chalk.gray(`    → ${violation.target}`) + via + chalk.gray(`  '${violation.moduleSpecifier}'`));
+  console.log(chalk.yellow(`    规则 #${violation.rule}${violation.message ? `: ${violation.message}` : ''}`));
+}
@@ -0,0 +1,117 @@
+import { Command } from 'commander';
+import path from 'path';
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import { ProjectMap } from '../core/scanner.js';
+import { CycleDetector, CycleInfo } from '../core/cycles.js';
+import { resolveProjectContext } from '../core/config.js';
+
+/**
+ * 默认基线文件名（位于输出目录）
+ */
+const DEFAULT_BASELINE_FILE = 'cycles-baseline.json';
+
+/**
+ * 基线文件内容
+ */
+interface CycleBaseline {
+  cycles: string[];
+}
+
+/**
+ * cycles 命令实现
+ * 检测循环依赖，出现基线之外的新循环时以非零状态码退出
+ */
+export function createCyclesCommand(): Command {
+  const cyclesCommand = new Command('cycles');
+
+  cyclesCommand
+    .description('检测循环依赖（与基线比对，出现新的循环时退出码为 1）')
+    .option('-p, --path <path>', '项目路径（默认：配置文件所在目录或当前目录）')
+    .option('-o, --output <output>', 'scan 的输出目录（默认：配置项 output 或 <项目路径>/ai-context）')
+    .option('-b, --baseline <file>', `基线文件（默认：<输出目录>/${DEFAULT_BASELINE_FILE}）`)
+    .option('--update-baseline', '将当前的循环依赖写入基线文件')
+    .option('--fail-on-type-only', '新增的仅类型循环同样视为失败')
+    .action(async (options) => {
+      try {
+        const { outputPath } = await resolveProjectContext(options);
+        const mapFile = path.join(outputPath, 'project-map.json');
+        const baselineFile = options.baseline ? path.resolve(options.baseline) : path.join(outputPath, DEFAULT_BASELINE_FILE);
+
+        // 检查项目地图是否存在
+        if (!await fs.pathExists(mapFile)) {
+          console.log(chalk.yellow(`⚠️  未找到项目地图 (${mapFile})，请先运行 scan 命令`));
+          console.log(chalk.gray('   运行: ai-pilot scan'));
+          process.exit(1);
+        }
+
+        const projectMap: ProjectMap = await fs.readJson(mapFile);
+        const cycles = new CycleDetector(projectMap).findCycles();
+
+        if (options.updateBaseline) {
+          const baseline: CycleBaseline = { cycles: cycles.map(cycle => cycle.key) };
+          await fs.outputJson(baselineFile, baseline, { spaces: 2 });
+          console.log(chalk.green(`✅ 已将 ${cycles.length} 个循环依赖写入基线`));
+          console.log(chalk.gray(`📄 ${baselineFile}`));
+          return;
+        }
+
+        const baseline: CycleBaseline | undefined = await fs.pathExists(baselineFile)
+          ? await fs.readJson(baselineFile)
+          : undefined;
+        const known = new Set(baseline?.cycles ?? []);
+        const newCycles = cycles.filter(cycle => !known.has(cycle.key));
+
+        console.log('');
+        if (cycles.length === 0) {
+          console.log(chalk.green('✅ 未检测到循环依赖'));
+        } else {
+          const typeOnlyCount = cycles.filter(cycle => cycle.typeOnly).length;
+          console.log(chalk.bold(`🔁 检测到 ${cycles.length} 个循环依赖`) + chalk.gray(`（其中 ${typeOnlyCount} 个仅由类型导入构成）`));
+          cycles.forEach((cycle, index) => printCycle(cycle, index, baseline !== undefined && !known.has(cycle.key)));
+        }
+
+        // 基线中已消除的循环
+        if (baseline) {
+          const current = new Set(cycles.map(cycle => cycle.key));
+          const resolved = baseline.cycles.filter(key => !current.has(key));
+          if (resolved.length > 0) {
+            console.log('');
+            console.log(chalk.green(`🎉 已消除 ${resolved.length} 个基线中的循环依赖（可运行 --update-baseline 更新基线）`));
+          }
+        } else if (cycles.length > 0) {
+          console.log('');
+          console.log(chalk.gray(`💡 未找到基线文件 (${baselineFile})，运行 ai-pilot cycles --update-baseline 记录现有循环`));
+        }
+
+        const failing = newCycles.filter(cycle => !cycle.typeOnly || options.failOnTypeOnly);
+        console.log('');
+        if (failing.length > 0) {
+          console.log(chalk.red(`❌ 新增 ${failing.length} 个循环依赖`));
+          process.exit(1);
+        }
+
+      } catch (error: any) {
+        console.error(chalk.red('❌ 分析失败:'), error.message);
+        process.exit(1);
+      }
+    });
+
+  return cyclesCommand;
+}
+
+/**
+ * 打印循环路径（a → b → a）
+ */
+function printCycle(cycle: CycleInfo, index: number, isNew: boolean): void {
+  const tags = [
+    cycle.typeOnly ? chalk.gray('[仅类型]') : '',
+    isNew ? chalk.red('[新增]') : '',
+  ].filter(Boolean).join(' ');
+
+  console.log('');
+  console.log(`  ${index + 1}. ${cycle.files[0]} ${tags}`.trimEnd());
+  [...cycle.files.slice(1), cycle.files[0]].forEach(file => {
+    console.log(chalk.gray(`     → ${file}`));
+  });
+}
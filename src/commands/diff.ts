@@ -4,6 +4,7 @@ import chalk from 'chalk';
 import fs from 'fs-extra';
 import { GitDiffAnalyzer, FileChange, CodeBlock } from '../core/diff-analyzer.js';
 import { DependencyTracer } from '../core/tracer.js';
+import { resolveProjectContext } from '../core/config.js';
 
 /**
  * diff 命令实现
@@ -14,16 +15,16 @@ export function createDiffCommand(): Command {
 
   diffCommand
     .description('分析 Git 暂存区的代码变更')
-    .option('-p, --path <path>', '项目根路径', process.cwd())
+    .option('-p, --path <path>', '项目根路径（默认：配置文件所在目录或当前目录）')
     .action(async (options) => {
       try {
-        const projectPath = path.resolve(options.path);
+        const { projectPath, config } = await resolveProjectContext(options);
         const outputFile = path.join(projectPath, 'AI_DIFF_CONTEXT.md');
 
         console.log(chalk.blue('🔍 分析 Git 变更...'));
 
         // 1. 分析 Git diff
-        const analyzer = new GitDiffAnalyzer(projectPath);
+        const analyzer = new GitDiffAnalyzer(projectPath, config.exclude);
         const diffAnalysis = await analyzer.analyzeStagedChanges();
 
         if (diffAnalysis.totalFiles === 0) {
@@ -40,7 +41,7 @@ export function createDiffCommand(): Command {
 
         // 3. 追踪依赖关系
         console.log(chalk.blue('🔗 追踪依赖关系...'));
-        const tracer = new DependencyTracer(projectPath);
+        const tracer = new DependencyTracer(projectPath, { maxDepth: config.trace?.depth, exclude: config.exclude, roleRules: config.roles });
         const impactMap = new Map<string, any>();
 
         for (const fileChange of diffAnalysis.fileChanges) {
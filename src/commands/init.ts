@@ -0,0 +1,72 @@
+import { Command } from 'commander';
+import path from 'path';
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import { ProjectScanner } from '../core/scanner.js';
+import {
+  AiPilotConfig,
+  CONFIG_FILE_NAMES,
+  DEFAULT_OUTPUT_DIR,
+  DEFAULT_TASK_MAX_MATCHES,
+  DEFAULT_TRACE_DEPTH,
+  DOC_SECTIONS,
+} from '../core/config.js';
+
+/**
+ * init 命令实现
+ * 检测项目结构并生成配置文件
+ */
+export function createInitCommand(): Command {
+  const initCommand = new Command('init');
+
+  initCommand
+    .description('生成 ai-pilot 配置文件（根据项目结构填充默认值）')
+    .option('-p, --path <path>', '项目路径', process.cwd())
+    .option('--ts', '生成 TypeScript 配置文件（ai-pilot.config.ts）')
+    .option('-f, --force', '覆盖已存在的配置文件')
+    .action(async (options) => {
+      try {
+        const projectPath = path.resolve(options.path);
+        const configFile = path.join(projectPath, options.ts ? 'ai-pilot.config.ts' : 'ai-pilot.config.json');
+
+        // 同一目录只保留一个配置文件（.ts 优先生效）
+        const existingFiles = CONFIG_FILE_NAMES
+          .map(fileName => path.join(projectPath, fileName))
+          .filter(file => fs.existsSync(file));
+        if (existingFiles.length > 0 && !options.force) {
+          throw new Error(`配置文件已存在: ${existingFiles.join(', ')}（使用 --force 覆盖）`);
+        }
+
+        console.log(chalk.blue('🔍 检测项目结构...'));
+
+        const scanner = new ProjectScanner(projectPath);
+        const config: AiPilotConfig = {
+          include: await scanner.detectProjectStructure(),
+          exclude: [],
+          output: DEFAULT_OUTPUT_DIR,
+          task: { maxMatches: DEFAULT_TASK_MAX_MATCHES },
+          trace: { depth: DEFAULT_TRACE_DEPTH },
+          docs: { sections: [...DOC_SECTIONS] },
+          roles: [],
+          boundaries: [],
+        };
+
+        const json = JSON.stringify(config, null, 2);
+        const content = options.ts
+          ? `/**\n * ai-pilot 配置\n */\nexport default ${json};\n`
+          : `${json}\n`;
+
+        await Promise.all(existingFiles.map(file => fs.remove(file)));
+        await fs.writeFile(configFile, content, 'utf-8');
+
+        console.log(chalk.green('✅ 配置文件已生成'));
+        console.log(chalk.gray(`📄 ${configFile}`));
+        console.log(chalk.gray(`📂 扫描范围: ${config.include!.join(', ')}`));
+      } catch (error: any) {
+        console.error(chalk.red('❌ 初始化失败:'), error.message);
+        process.exit(1);
+      }
+    });
+
+  return initCommand;
+}
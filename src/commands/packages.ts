@@ -0,0 +1,108 @@
+import { Command } from 'commander';
+import path from 'path';
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import { ProjectMap } from '../core/scanner.js';
+import { PackageUsageAnalyzer, PackageUsageInfo } from '../core/package-usage.js';
+import { resolveProjectContext } from '../core/config.js';
+
+/**
+ * 每个包展示的导出名数量
+ */
+const MAX_LISTED_IMPORTS = 8;
+
+/**
+ * packages 命令实现
+ * 统计第三方包的使用情况，并与 package.json 比对
+ */
+export function createPackagesCommand(): Command {
+  const packagesCommand = new Command('packages');
+
+  packagesCommand
+    .description('统计第三方包的使用情况（未使用 / 未声明 / 生产代码中的 devDependencies）')
+    .option('-p, --path <path>', '项目路径（默认：配置文件所在目录或当前目录）')
+    .option('-o, --output <output>', 'scan 的输出目录（默认：配置项 output 或 <项目路径>/ai-context）')
+    .option('--json', '以 JSON 格式输出报告')
+    .action(async (options) => {
+      try {
+        const { outputPath } = await resolveProjectContext(options);
+        const mapFile = path.join(outputPath, 'project-map.json');
+
+        // 检查项目地图是否存在
+        if (!await fs.pathExists(mapFile)) {
+          console.log(chalk.yellow(`⚠️  未找到项目地图 (${mapFile})，请先运行 scan 命令`));
+          console.log(chalk.gray('   运行: ai-pilot scan'));
+          process.exit(1);
+        }
+
+        const projectMap: ProjectMap = await fs.readJson(mapFile);
+        const report = new PackageUsageAnalyzer(projectMap).analyze();
+
+        if (options.json) {
+          console.log(JSON.stringify(report, null, 2));
+          return;
+        }
+
+        console.log('');
+        console.log(chalk.bold(`📦 第三方包使用情况 (${report.packages.length})`));
+        report.packages.forEach(pkg => {
+          console.log(`  ${chalk.cyan(pkg.name)} ${chalk.gray(formatPackageMeta(pkg))}`);
+          const imports = pkg.imports.slice(0, MAX_LISTED_IMPORTS).join(', ');
+          if (imports) {
+            console.log(chalk.gray(`     导入: ${imports}${pkg.imports.length > MAX_LISTED_IMPORTS ? ` 等 ${pkg.imports.length} 个` : ''}`));
+          }
+        });
+
+        const undeclared = report.packages.filter(pkg => pkg.undeclared);
+        if (undeclared.length > 0) {
+          console.log('');
+          console.log(chalk.red(`❗ 未在 package.json 中声明 (${undeclared.length}):`));
+          undeclared.forEach(pkg => {
+            console.log(`  ${pkg.name} ${chalk.gray(`← ${pkg.files.join(', ')}`)}`);
+          });
+        }
+
+        const devInProduction = report.packages.filter(pkg => pkg.devInProduction.length > 0);
+        if (devInProduction.length > 0) {
+          console.log('');
+          console.log(chalk.yellow(`⚠️  生产代码中使用的 devDependencies (${devInProduction.length}):`));
+          devInProduction.forEach(pkg => {
+            console.log(`  ${pkg.name} ${chalk.gray(`← ${pkg.devInProduction.join(', ')}`)}`);
+          });
+        }
+
+        if (report.unused.length > 0) {
+          console.log('');
+          console.log(chalk.yellow(`🗑  未被导入的 dependencies (${report.unused.length}):`));
+          report.unused.forEach(dep => {
+            console.log(`  ${dep.name}@${dep.version} ${chalk.gray(`(${dep.manifest})`)}`);
+          });
+        }
+
+        if (undeclared.length === 0 && devInProduction.length === 0 && report.unused.length === 0) {
+          console.log('');
+          console.log(chalk.green('✅ 依赖声明与实际使用一致'));
+        }
+        console.log('');
+
+      } catch (error: any) {
+        console.error(chalk.red('❌ 分析失败:'), error.message);
+        process.exit(1);
+      }
+    });
+
+  return packagesCommand;
+}
+
+/**
+ * 版本、许可证、声明字段与使用文件数
+ */
+function formatPackageMeta(pkg: PackageUsageInfo): string {
+  const version = pkg.installedVersion ?? pkg.declaredVersion ?? '未安装';
+  const parts = [
+    pkg.license ? `${version} (${pkg.license})` : version,
+    pkg.declaredIn ?? '未声明',
+    `${pkg.files.length} 个文件`,
+  ];
+  return parts.join(' · ');
+}
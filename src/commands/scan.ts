@@ -2,10 +2,14 @@ import { Command } from 'commander';
 import path from 'path';
 import chalk from 'chalk';
 import fs from 'fs-extra';
+import os from 'os';
 import { ProjectScanner, FileRole } from '../core/scanner.js';
 import { TaskHydrator } from '../core/hydrator.js';
 import { MarkdownGenerator } from '../core/generator.js';
 import { ProductDocGenerator } from '../core/product-doc-generator.js';
+import { ScanCache } from '../core/scan-cache.js';
+import { resolveProjectContext } from '../core/config.js';
+import type { TaskContext } from '../core/hydrator.js';
 
 /**
  * scan 命令实现
@@ -16,36 +20,80 @@ export function createScanCommand(): Command {
 
   scanCommand
     .description('扫描项目结构并生成 AI 友好的上下文文档')
-    .option('-p, --path <path>', '项目路径', process.cwd())
-    .option('-o, --output <output>', '输出目录', './ai-context')
+    .option('-p, --path <path>', '项目路径（默认：配置文件所在目录或当前目录）')
+    .option('-o, --output <output>', '输出目录（默认：配置项 output 或 <项目路径>/ai-context）')
     .option('--no-tsconfig', '不使用 tsconfig.json（适用于 monorepo）')
+    .option('-s, --scope <scopes>', '扫描范围，多个目录用逗号分隔（相对项目路径，如 apps/web,packages/ui）')
+    .option('--incremental', '增量扫描：仅重新分析内容变化的文件')
+    .option('--concurrency <n>', '并行分析的线程数（1 为串行）', String(os.availableParallelism()))
     .action(async (options) => {
       try {
-        const projectPath = path.resolve(options.path);
-        const outputPath = path.resolve(options.output);
+        const { projectPath, outputPath, config, configFile } = await resolveProjectContext(options);
 
         console.log(chalk.blue('🔍 扫描项目...'));
         console.log(chalk.gray(`📂 ${projectPath}`));
+        if (configFile) {
+          console.log(chalk.gray(`⚙️  配置文件: ${configFile}`));
+        }
+
+        // 解析扫描范围
+        const scopes: string[] = options.scope
+          ? options.scope.split(',').map((scope: string) => scope.trim()).filter(Boolean)
+          : [];
+        for (const scope of scopes) {
+          if (!await fs.pathExists(path.join(projectPath, scope))) {
+            throw new Error(`扫描范围不存在: ${scope}`);
+          }
+        }
+        if (scopes.length > 0) {
+          console.log(chalk.gray(`🎯 扫描范围: ${scopes.join(', ')}`));
+        }
 
         // 初始化扫描器
-        const scanner = new ProjectScanner(projectPath);
+        const scanner = new ProjectScanner(projectPath, {
+          scopes,
+          include: config.include,
+          exclude: config.exclude,
+          roleRules: config.roles,
+        });
         const hydrator = new TaskHydrator();
         const generator = new MarkdownGenerator();
         const productDocGen = new ProductDocGenerator();
 
-        // 生成项目地图
-        const projectMap = await scanner.generateProjectMap();
+        // 生成项目地图（缓存位于输出目录）
+        const cache = await ScanCache.load(outputPath, projectPath);
+        const projectMap = await scanner.generateProjectMap({
+          cache,
+          incremental: options.incremental,
+          concurrency: Math.max(1, parseInt(options.concurrency, 10) || 1),
+        });
         
         console.log(chalk.gray(`📊 发现 ${projectMap.totalFiles} 个文件`));
 
-        // 提取任务
-        const sourceFiles = await scanner.scanFiles();
-        const allTasks = sourceFiles.map(file => ({
-          file: file.getFilePath(),
-          tasks: hydrator.extractTasks(file),
-        }));
+        // 提示未在 .env 示例文件中说明的环境变量
+        if (projectMap.env.undocumented.length > 0) {
+          console.log(chalk.yellow(`⚠️  ${projectMap.env.undocumented.length} 个环境变量未在 .env 示例文件中说明: ${projectMap.env.undocumented.join(', ')}`));
+        }
 
-        const allAITasks = sourceFiles.flatMap(file => hydrator.extractAITasks(file));
+        // 提取任务（未变化的文件复用缓存）
+        const allTasks: Array<{ file: string; tasks: Array<{ type: string; text: string; line: number }> }> = [];
+        const allAITasks: TaskContext[] = [];
+
+        for (const file of projectMap.files) {
+          const cached = cache.get(file.relativePath);
+          if (cache.isFresh(file.relativePath) && cached?.tasks && cached.aiTasks) {
+            allTasks.push({ file: file.filePath, tasks: cached.tasks });
+            allAITasks.push(...cached.aiTasks);
+            continue;
+          }
+
+          const sourceFile = scanner.getSourceFile(file.filePath);
+          const tasks = hydrator.extractTasks(sourceFile);
+          const aiTasks = hydrator.extractAITasks(sourceFile);
+          cache.setTasks(file.relativePath, tasks, aiTasks);
+          allTasks.push({ file: file.filePath, tasks });
+          allAITasks.push(...aiTasks);
+        }
 
         // 生成文档
         await generator.generateFullDoc(
@@ -64,7 +112,7 @@ export function createScanCommand(): Command {
         );
 
         // 生成产品级文档
-        const productDoc = productDocGen.generateProductDoc(projectMap);
+        const productDoc = productDocGen.generateProductDoc(projectMap, config.docs?.sections);
         await fs.writeFile(
           path.join(outputPath, 'PRODUCT_OVERVIEW.md'),
           productDoc,
@@ -91,6 +139,9 @@ export function createScanCommand(): Command {
           outputPath
         );
 
+        // 保存扫描缓存
+        await cache.save();
+
         console.log(chalk.green(`✅ 扫描完成 (${projectMap.totalFiles} 个文件)`));
         console.log(chalk.gray(`📁 ${outputPath}/`));
         console.log(chalk.green(`   ⭐ PRODUCT_OVERVIEW.md - 产品级项目文档`));
@@ -108,14 +159,20 @@ export function createScanCommand(): Command {
 /**
  * 获取文件角色对应的 emoji
  */
-function getRoleEmoji(role: FileRole): string {
-  const emojiMap: Record<FileRole, string> = {
+function getRoleEmoji(role: FileRole | string): string {
+  const emojiMap: Record<string, string> = {
     [FileRole.COMPONENT]: '🧩',
+    [FileRole.PAGE]: '📄',
+    [FileRole.ROUTE]: '🧭',
+    [FileRole.STORE]: '🗄️',
+    [FileRole.CONTEXT]: '🔌',
     [FileRole.HOOK]: '🪝',
     [FileRole.UTILITY]: '🔧',
     [FileRole.SERVICE]: '🌐',
     [FileRole.TYPE]: '📘',
     [FileRole.CONFIG]: '⚙️',
+    [FileRole.TEST]: '🧪',
+    [FileRole.STYLE]: '🎨',
     [FileRole.UNKNOWN]: '❓',
   };
   return emojiMap[role] || '📄';
@@ -4,6 +4,8 @@ import chalk from 'chalk';
 import fs from 'fs-extra';
 import { ProjectMap } from '../core/scanner.js';
 import { ContextFinder, ContextMatch } from '../core/context-finder.js';
+import { resolveProjectContext, DEFAULT_TASK_MAX_MATCHES } from '../core/config.js';
+import { formatDocComment, formatDocSummary } from '../core/doc-comments.js';
 
 /**
  * task 命令实现
@@ -15,16 +17,17 @@ export function createTaskCommand(): Command {
   taskCommand
     .description('根据需求生成 AI 任务文档')
     .argument('<requirement>', '你想对项目进行的改动')
-    .option('-p, --path <path>', '项目路径', process.cwd())
+    .option('-p, --path <path>', '项目路径（默认：配置文件所在目录或当前目录）')
+    .option('-o, --output <output>', 'scan 的输出目录（默认：配置项 output 或 <项目路径>/ai-context）')
     .action(async (requirement: string, options) => {
       try {
-        const projectPath = path.resolve(options.path);
-        const mapFile = path.join(projectPath, 'ai-context', 'project-map.json');
+        const { projectPath, outputPath, config } = await resolveProjectContext(options);
+        const mapFile = path.join(outputPath, 'project-map.json');
         const outputFile = path.join(projectPath, 'AI_READY_TASKS.md');
 
         // 检查项目地图是否存在
         if (!await fs.pathExists(mapFile)) {
-          console.log(chalk.yellow('⚠️  未找到项目地图，请先运行 scan 命令'));
+          console.log(chalk.yellow(`⚠️  未找到项目地图 (${mapFile})，请先运行 scan 命令`));
           console.log(chalk.gray('   运行: ai-pilot scan'));
           process.exit(1);
         }
@@ -56,8 +59,8 @@ export function createTaskCommand(): Command {
           process.exit(0);
         }
 
-        // 取前5个匹配结果
-        const topMatches = matches.slice(0, 5);
+        // 取前 N 个匹配结果
+        const topMatches = matches.slice(0, config.task?.maxMatches ?? DEFAULT_TASK_MAX_MATCHES);
 
         // 生成任务文档
         const markdown = generateTaskDocument(requirement, topMatches, projectPath);
@@ -119,6 +122,16 @@ ${userRequest}
 
 `;
 
+      // HTTP 请求（旧版地图没有 apiCalls）
+      const apiCalls = match.file.apiCalls ?? [];
+      if (apiCalls.length > 0) {
+        markdown += `**HTTP 请求**:\n`;
+        apiCalls.forEach(call => {
+          markdown += `- \`${call.method} ${call.url}\`${call.function ? ` - \`${call.function}\`` : ''} (第 ${call.line} 行)\n`;
+        });
+        markdown += '\n';
+      }
+
       // 如果有完整源代码，优先展示
       if (summary.sourceCode) {
         markdown += `**完整源代码**:\n\n\`\`\`typescript\n${summary.sourceCode}\n\`\`\`\n\n`;
@@ -130,9 +143,11 @@ ${userRequest}
           markdown += `**导出**:\n`;
           summary.exports.forEach(exp => {
             if (exp.signature) {
-              markdown += `\n\`\`\`typescript\n${exp.signature}\n\`\`\`\n`;
+              const docComment = exp.doc ? `${formatDocComment(exp.doc)}\n` : '';
+              markdown += `\n\`\`\`typescript\n${docComment}${exp.signature}\n\`\`\`\n`;
             } else {
-              markdown += `- ${exp.type}: \`${exp.name}\`\n`;
+              const summary = formatDocSummary(exp.doc);
+              markdown += `- ${exp.type}: \`${exp.name}\`${summary ? ` - ${summary}` : ''}\n`;
             }
           });
           markdown += '\n';
@@ -158,6 +173,17 @@ ${userRequest}
           markdown += '\n';
         }
 
+        // 枚举定义
+        if (summary.enums.length > 0) {
+          markdown += `**枚举**:\n`;
+          summary.enums.forEach(enumDef => {
+            markdown += `\n\`\`\`typescript\nenum ${enumDef.name} {\n`;
+            markdown += enumDef.members.map(m => `  ${m.name}${m.value !== undefined ? ` = ${m.value}` : ''},`).join('\n');
+            markdown += `\n}\n\`\`\`\n`;
+          });
+          markdown += '\n';
+        }
+
         // 关联文件
         if (match.relatedFiles.length > 0) {
           markdown += `**关联文件**: `;
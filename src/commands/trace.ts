@@ -3,6 +3,28 @@ import path from 'path';
 import chalk from 'chalk';
 import fs from 'fs-extra';
 import { DependencyTracer, ImpactAnalysis } from '../core/tracer.js';
+import { FileRole } from '../core/scanner.js';
+import { resolveProjectContext } from '../core/config.js';
+import { formatDocSummary } from '../core/doc-comments.js';
+
+/**
+ * 下游依赖分组标题的图标（按文件角色）
+ */
+const ROLE_EMOJI: Record<string, string> = {
+  [FileRole.COMPONENT]: '🧩',
+  [FileRole.PAGE]: '📄',
+  [FileRole.ROUTE]: '🧭',
+  [FileRole.STORE]: '🗄️',
+  [FileRole.CONTEXT]: '🔌',
+  [FileRole.HOOK]: '🪝',
+  [FileRole.UTILITY]: '🔧',
+  [FileRole.SERVICE]: '🌐',
+  [FileRole.TYPE]: '📘',
+  [FileRole.CONFIG]: '⚙️',
+  [FileRole.TEST]: '🧪',
+  [FileRole.STYLE]: '🎨',
+  [FileRole.UNKNOWN]: '📄',
+};
 
 /**
  * trace 命令实现
@@ -14,17 +36,22 @@ export function createTraceCommand(): Command {
   traceCommand
     .description('分析指定文件的上下游依赖关系')
     .argument('<file>', '要分析的文件路径')
-    .option('-p, --path <path>', '项目根路径', process.cwd())
+    .option('-p, --path <path>', '项目根路径（默认：配置文件所在目录或当前目录）')
+    .option('-d, --depth <n>', '下游依赖的递归深度（默认：配置项 trace.depth 或 3）')
     .action(async (file: string, options) => {
       try {
-        const projectPath = path.resolve(options.path);
-        const targetFile = path.isAbsolute(file) ? file : path.join(projectPath, file);
+        const { projectPath, config } = await resolveProjectContext(options);
+        const maxDepth = options.depth !== undefined ? parseInt(options.depth, 10) : config.trace?.depth;
+        if (maxDepth !== undefined && !(maxDepth >= 0)) {
+          throw new Error(`无效的递归深度: ${options.depth}`);
+        }
+        const targetFile = resolveTargetFile(file, projectPath);
         const outputFile = path.join(projectPath, 'IMPACT_ANALYSIS.md');
 
         console.log(chalk.blue('🔍 分析依赖关系...'));
 
         // 初始化追踪器
-        const tracer = new DependencyTracer(projectPath);
+        const tracer = new DependencyTracer(projectPath, { maxDepth, exclude: config.exclude, roleRules: config.roles });
 
         // 分析影响范围
         const analysis = await tracer.analyzeImpact(targetFile);
@@ -85,7 +112,8 @@ function generateImpactDocument(analysis: ImpactAnalysis, projectPath: string):
   } else {
     analysis.exports.forEach(exp => {
       const usageIndicator = exp.isUsedExternally ? '🔴 被外部使用' : '⚪ 未被外部使用';
-      markdown += `- **${exp.type}** \`${exp.name}\` ${usageIndicator}\n`;
+      const summary = formatDocSummary(exp.doc);
+      markdown += `- **${exp.type}** \`${exp.name}\` ${usageIndicator}${summary ? ` - ${summary}` : ''}\n`;
     });
     markdown += '\n';
   }
@@ -107,22 +135,21 @@ function generateImpactDocument(analysis: ImpactAnalysis, projectPath: string):
     Object.entries(grouped).forEach(([type, deps]) => {
       if (deps.length === 0) return;
 
-      const typeEmoji = {
-        component: '🧩',
-        hook: '🪝',
-        util: '🔧',
-        service: '🌐',
-        type: '📘',
-        other: '📄',
-      }[type] || '📄';
+      const typeEmoji = ROLE_EMOJI[type] || '📄';
 
-      markdown += `### ${typeEmoji} ${capitalizeFirst(type)} (${deps.length})\n\n`;
+      markdown += `### ${typeEmoji} ${type} (${deps.length})\n\n`;
 
       deps.forEach(dep => {
-        markdown += `**\`${dep.relativePath}\`**\n`;
+        markdown += `**\`${dep.relativePath}\`**${dep.packageName ? ` 📦 \`${dep.packageName}\`` : ''}\n`;
         if (dep.imports.length > 0) {
           markdown += `- 导入: ${dep.imports.map((i: string) => `\`${i}\``).join(', ')}\n`;
         }
+        if (dep.viaBarrel) {
+          markdown += `- 经由: \`${dep.viaBarrel}\`\n`;
+        }
+        if (dep.kind !== 'static') {
+          markdown += `- 方式: ${dep.kind === 'dynamic' ? '动态 `import()`' : '`require()`'}\n`;
+        }
         markdown += '\n';
       });
     });
@@ -147,10 +174,15 @@ function generateImpactDocument(analysis: ImpactAnalysis, projectPath: string):
     sortedDependents.forEach((dep, index) => {
       markdown += `### ${index + 1}. \`${dep.relativePath}\`\n\n`;
       markdown += `**导入内容**: ${dep.importedItems.map(i => `\`${i}\``).join(', ')}\n`;
+      if (dep.viaBarrel) {
+        markdown += `**经由**: \`${dep.viaBarrel}\`\n`;
+      }
       markdown += `**使用次数**: ${dep.usageCount}\n\n`;
     });
   }
 
+  markdown += generateHookSection(analysis);
+
   markdown += `---
 
 ## 🎯 修改建议
@@ -187,27 +219,66 @@ function generateImpactDocument(analysis: ImpactAnalysis, projectPath: string):
  * 按类型分组
  */
 function groupByType(dependencies: any[]): Record<string, any[]> {
-  const grouped: Record<string, any[]> = {
-    component: [],
-    hook: [],
-    util: [],
-    service: [],
-    type: [],
-    other: [],
-  };
+  // 内置角色按固定顺序排列，自定义角色追加在后
+  const grouped: Record<string, any[]> = Object.fromEntries(Object.values(FileRole).map(role => [role, []]));
 
   dependencies.forEach(dep => {
-    grouped[dep.type].push(dep);
+    (grouped[dep.type] ??= []).push(dep);
   });
 
   return grouped;
 }
 
 /**
- * 首字母大写
+ * 生成 Hook 使用章节（该文件调用的 Hook / 使用该文件 Hook 的函数）
  */
-function capitalizeFirst(str: string): string {
-  return str.charAt(0).toUpperCase() + str.slice(1);
+function generateHookSection(analysis: ImpactAnalysis): string {
+  const consumers = analysis.dependents.filter(dep => dep.hookUsage.length > 0);
+  if (analysis.hookUsage.length === 0 && consumers.length === 0) {
+    return '';
+  }
+
+  let markdown = `---
+
+## 🪝 Hook 使用
+
+`;
+
+  if (analysis.hookUsage.length > 0) {
+    markdown += `### 该文件调用的 Hook\n\n`;
+    markdown += `| 函数 | 内置 Hook | 自定义 / 第三方 Hook |\n`;
+    markdown += `|------|-----------|----------------------|\n`;
+    analysis.hookUsage.forEach(usage => {
+      const builtin = usage.calls.filter(call => call.builtin).map(call => `\`${call.name}\``);
+      const custom = usage.calls.filter(call => !call.builtin)
+        .map(call => `\`${call.name}\` (${call.file ?? call.moduleSpecifier ?? '未知来源'})`);
+      markdown += `| \`${usage.function}\` | ${builtin.join(', ') || '-'} | ${custom.join(', ') || '-'} |\n`;
+    });
+    markdown += '\n';
+  }
+
+  if (consumers.length > 0) {
+    markdown += `### 使用该文件 Hook 的函数\n\n`;
+    consumers.forEach(dep => {
+      dep.hookUsage.forEach(usage => {
+        markdown += `- \`${usage.function}\` (${dep.relativePath}) → ${usage.calls.map(call => `\`${call.name}\``).join(', ')}\n`;
+      });
+    });
+    markdown += '\n';
+  }
+
+  return markdown;
 }
 
 
+/**
+ * 解析目标文件路径
+ * 相对路径优先相对项目根目录，不存在时相对当前目录（在子目录中运行时）
+ */
+function resolveTargetFile(file: string, projectPath: string): string {
+  if (path.isAbsolute(file)) {
+    return file;
+  }
+  const fromRoot = path.join(projectPath, file);
+  return fs.existsSync(fromRoot) ? fromRoot : path.resolve(file);
+}
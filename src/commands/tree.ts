@@ -0,0 +1,116 @@
+import { Command } from 'commander';
+import path from 'path';
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import { FileAnalysis, ProjectMap } from '../core/scanner.js';
+import { RenderTree } from '../core/render-tree.js';
+import { resolveProjectContext } from '../core/config.js';
+
+/**
+ * 默认展开的层级
+ */
+const DEFAULT_TREE_DEPTH = 3;
+
+/**
+ * tree 命令实现
+ * 展示组件的渲染层级（被谁渲染 / 渲染了谁）
+ */
+export function createTreeCommand(): Command {
+  const treeCommand = new Command('tree');
+
+  treeCommand
+    .description('展示组件的渲染层级')
+    .argument('<component>', '组件名或组件文件路径')
+    .option('-p, --path <path>', '项目路径（默认：配置文件所在目录或当前目录）')
+    .option('-o, --output <output>', 'scan 的输出目录（默认：配置项 output 或 <项目路径>/ai-context）')
+    .option('-d, --depth <n>', `展开的层级（默认：${DEFAULT_TREE_DEPTH}）`)
+    .action(async (component: string, options) => {
+      try {
+        const { outputPath } = await resolveProjectContext(options);
+        const mapFile = path.join(outputPath, 'project-map.json');
+        const depth = options.depth !== undefined ? parseInt(options.depth, 10) : DEFAULT_TREE_DEPTH;
+        if (!(depth >= 1)) {
+          throw new Error(`无效的层级: ${options.depth}`);
+        }
+
+        // 检查项目地图是否存在
+        if (!await fs.pathExists(mapFile)) {
+          console.log(chalk.yellow(`⚠️  未找到项目地图 (${mapFile})，请先运行 scan 命令`));
+          console.log(chalk.gray('   运行: ai-pilot scan'));
+          process.exit(1);
+        }
+
+        const projectMap: ProjectMap = await fs.readJson(mapFile);
+        const tree = new RenderTree(projectMap);
+        const files = tree.find(component);
+
+        if (files.length === 0) {
+          throw new Error(`未找到组件: ${component}`);
+        }
+
+        files.forEach(file => {
+          console.log('');
+          console.log(chalk.bold(`🌳 ${tree.getLabel(file)}`) + chalk.gray(` (${file.relativePath})`));
+
+          const parents = tree.getParents(file);
+          console.log('');
+          console.log(chalk.blue(`⬆️  被以下组件渲染 (${parents.length}):`));
+          printParents(tree, file, depth, '  ', new Set([file.relativePath]));
+
+          const children = tree.getChildren(file);
+          console.log('');
+          console.log(chalk.blue(`⬇️  渲染的组件 (${children.length}):`));
+          printChildren(tree, file, depth, '  ', new Set([file.relativePath]));
+        });
+        console.log('');
+
+      } catch (error: any) {
+        console.error(chalk.red('❌ 分析失败:'), error.message);
+        process.exit(1);
+      }
+    });
+
+  return treeCommand;
+}
+
+/**
+ * 向上打印渲染该组件的父组件
+ */
+function printParents(tree: RenderTree, file: FileAnalysis, depth: number, indent: string, visited: Set<string>): void {
+  const parents = tree.getParents(file);
+  if (parents.length === 0 && visited.size === 1) {
+    console.log(chalk.gray(`${indent}（无，可能是入口组件或页面）`));
+  }
+
+  parents.forEach((parent, index) => {
+    const isLast = index === parents.length - 1;
+    const isCycle = visited.has(parent.relativePath);
+    console.log(`${indent}${isLast ? '└─' : '├─'} ${tree.getLabel(parent)} ${chalk.gray(`(${parent.relativePath})`)}${isCycle ? chalk.yellow(' ↻') : ''}`);
+
+    if (!isCycle && depth > 1) {
+      printParents(tree, parent, depth - 1, `${indent}${isLast ? '   ' : '│  '}`, new Set([...visited, parent.relativePath]));
+    }
+  });
+}
+
+/**
+ * 向下打印组件渲染的子组件（第三方组件标注来源模块）
+ */
+function printChildren(tree: RenderTree, file: FileAnalysis, depth: number, indent: string, visited: Set<string>): void {
+  const children = tree.getChildren(file);
+  if (children.length === 0 && visited.size === 1) {
+    console.log(chalk.gray(`${indent}（无）`));
+  }
+
+  children.forEach((render, index) => {
+    const isLast = index === children.length - 1;
+    const child = render.file ? tree.getFile(render.file) : undefined;
+    const isCycle = !!render.file && visited.has(render.file);
+    const source = render.file ?? render.moduleSpecifier;
+    console.log(`${indent}${isLast ? '└─' : '├─'} ${render.component} ${chalk.gray(`(${source})`)}${isCycle ? chalk.yellow(' ↻') : ''}`);
+
+    if (child && !isCycle && depth > 1) {
+      printChildren(tree, child, depth - 1, `${indent}${isLast ? '   ' : '│  '}`, new Set([...visited, child.relativePath]));
+    }
+  });
+}
@@ -0,0 +1,101 @@
+import { Command } from 'commander';
+import path from 'path';
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import { ProjectMap, ProjectScanner } from '../core/scanner.js';
+import { UnusedAnalyzer, FileExportsInfo, TestFileImports } from '../core/unused.js';
+import { resolveProjectContext } from '../core/config.js';
+
+/**
+ * unused 命令实现
+ * 检测未使用的导出、仅被测试使用的导出以及孤立文件
+ */
+export function createUnusedCommand(): Command {
+  const unusedCommand = new Command('unused');
+
+  unusedCommand
+    .description('检测未使用的导出与孤立文件')
+    .option('-p, --path <path>', '项目路径（默认：配置文件所在目录或当前目录）')
+    .option('-o, --output <output>', 'scan 的输出目录（默认：配置项 output 或 <项目路径>/ai-context）')
+    .option('-e, --entry <patterns...>', '额外的入口文件（gitignore 语法，与配置项 unused.entries 合并）')
+    .option('--json', '以 JSON 格式输出报告')
+    .action(async (options) => {
+      try {
+        const { outputPath, config } = await resolveProjectContext(options);
+        const mapFile = path.join(outputPath, 'project-map.json');
+
+        // 检查项目地图是否存在
+        if (!await fs.pathExists(mapFile)) {
+          console.log(chalk.yellow(`⚠️  未找到项目地图 (${mapFile})，请先运行 scan 命令`));
+          console.log(chalk.gray('   运行: ai-pilot scan'));
+          process.exit(1);
+        }
+
+        const projectMap: ProjectMap = await fs.readJson(mapFile);
+        const entries = [...(config.unused?.entries ?? []), ...(options.entry ?? [])];
+        const testFiles = await loadTestFiles(projectMap.rootPath, config.include, config.exclude);
+        const report = new UnusedAnalyzer(projectMap, entries, testFiles).analyze();
+
+        if (options.json) {
+          console.log(JSON.stringify(report, null, 2));
+          return;
+        }
+
+        console.log('');
+        console.log(chalk.gray(`🚪 入口文件: ${report.entries.length} 个（导出视为已使用）`));
+        if (testFiles.length > 0) {
+          console.log(chalk.gray(`🧪 测试文件: ${testFiles.length} 个（不在项目地图中，单独解析导入）`));
+        }
+
+        printExports(chalk.yellow(`🗑  未被导入的导出 (${countExports(report.unusedExports)}):`), report.unusedExports);
+        printExports(chalk.blue(`🧪 仅被测试使用的导出 (${countExports(report.testOnlyExports)}):`), report.testOnlyExports);
+
+        if (report.orphanFiles.length > 0) {
+          console.log('');
+          console.log(chalk.yellow(`📄 孤立文件 (${report.orphanFiles.length}):`));
+          report.orphanFiles.forEach(file => console.log(`  ${file}`));
+        }
+
+        if (report.unusedExports.length === 0 && report.testOnlyExports.length === 0 && report.orphanFiles.length === 0) {
+          console.log('');
+          console.log(chalk.green('✅ 未发现未使用的导出或孤立文件'));
+        } else {
+          console.log('');
+          console.log(chalk.gray('💡 由框架或外部加载的文件可通过 --entry 或配置项 unused.entries 声明为入口'));
+        }
+        console.log('');
+
+      } catch (error: any) {
+        console.error(chalk.red('❌ 分析失败:'), error.message);
+        process.exit(1);
+      }
+    });
+
+  return unusedCommand;
+}
+
+/**
+ * 解析 scan 默认忽略的测试文件的导入
+ */
+async function loadTestFiles(rootPath: string, include?: string[], exclude?: string[]): Promise<TestFileImports[]> {
+  const scanner = new ProjectScanner(rootPath, { include, exclude });
+  const files = await scanner.listTestFiles();
+  return files.map(filePath => ({
+    relativePath: path.relative(rootPath, filePath),
+    imports: scanner.getImports(filePath),
+  }));
+}
+
+function printExports(title: string, files: FileExportsInfo[]): void {
+  if (files.length === 0) return;
+
+  console.log('');
+  console.log(title);
+  files.forEach(({ file, exports }) => {
+    console.log(`  ${file} ${chalk.gray(`- ${exports.join(', ')}`)}`);
+  });
+}
+
+function countExports(files: FileExportsInfo[]): number {
+  return files.reduce((sum, file) => sum + file.exports.length, 0);
+}
@@ -0,0 +1,246 @@
+import { SourceFile, SyntaxKind, Node, CallExpression, ObjectLiteralExpression } from 'ts-morph';
+import { getImportBindings } from './import-bindings.js';
+import { getCallerName } from './caller-name.js';
+
+/**
+ * HTTP 请求调用
+ */
+export interface ApiCallInfo {
+  method: string;             // HTTP 方法（大写；无法静态确定时保留为 {表达式}）
+  url: string;                // URL 模板（常量与模板字符串已展开，无法解析的部分保留为 {表达式}）
+  client: string;             // 发起请求的客户端（fetch、axios 或自定义客户端，如 request、this.http）
+  function?: string;          // 调用方函数（顶层调用为空）
+  line: number;
+}
+
+/**
+ * 客户端上以 HTTP 方法命名的请求函数
+ */
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'];
+
+/**
+ * 直接以函数形式调用的自定义请求函数名（request(url)、apiFetch(url) 等）
+ */
+const CUSTOM_REQUEST_FUNCTION = /^(ky|useSWR)$|request|fetch|http/i;
+
+/**
+ * 展开常量引用的最大层数
+ */
+const MAX_RESOLVE_DEPTH = 5;
+
+/**
+ * 同样提供 get / delete 等方法的非 HTTP 类型
+ */
+const NON_HTTP_TYPES = ['Map', 'WeakMap', 'Set', 'URLSearchParams', 'Headers', 'FormData', 'Storage', 'Cache'];
+
+/**
+ * 提取文件中的 HTTP 请求：fetch、axios（含 axios.create 实例）以及 client.get(url) 形式的自定义客户端
+ */
+export function extractApiCalls(sourceFile: SourceFile): ApiCallInfo[] {
+  const bindings = getImportBindings(sourceFile);
+  const axiosNames = new Set(
+    [...bindings.entries()].filter(([, binding]) => binding.moduleSpecifier === 'axios').map(([local]) => local)
+  );
+
+  // axios.create({ baseURL }) 创建的实例（本文件定义或从其他文件导入）
+  const instances = new Map<string, string | undefined>();
+  sourceFile.getVariableDeclarations().forEach(decl => {
+    const baseURL = readAxiosInstance(decl.getInitializer(), axiosNames);
+    if (baseURL !== undefined) {
+      instances.set(decl.getName(), baseURL || undefined);
+    }
+  });
+  sourceFile.getImportDeclarations().forEach(importDecl => {
+    if (importDecl.getModuleSpecifierValue() === 'axios') return;
+    [importDecl.getDefaultImport(), ...importDecl.getNamedImports().map(named => named.getAliasNode() ?? named.getNameNode())]
+      .forEach(identifier => {
+        let symbol = identifier?.getSymbol();
+        if (symbol?.isAlias()) {
+          symbol = symbol.getAliasedSymbol();
+        }
+        const declaration = symbol?.getDeclarations()[0];
+        if (!identifier || !Node.isVariableDeclaration(declaration)) return;
+
+        const declarationAxiosNames = new Set(
+          [...getImportBindings(declaration.getSourceFile()).entries()]
+            .filter(([, binding]) => binding.moduleSpecifier === 'axios')
+            .map(([local]) => local)
+        );
+        const baseURL = readAxiosInstance(declaration.getInitializer(), declarationAxiosNames);
+        if (baseURL !== undefined) {
+          instances.set(identifier.getText(), baseURL || undefined);
+        }
+      });
+  });
+
+  const calls: ApiCallInfo[] = [];
+  sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression).forEach(call => {
+    const request = readRequest(call, axiosNames, instances);
+    // URL 完全无法静态确定的（如请求封装函数内部的 fetch(url)）不计入
+    if (request && request.url.replace(/\{[^}]*\}/g, '').length > 0) {
+      calls.push({ ...request, function: getCallerName(call), line: call.getStartLineNumber() });
+    }
+  });
+  return calls;
+}
+
+/**
+ * axios.create(config) 调用时返回 baseURL（未配置时为空字符串），否则返回 undefined
+ */
+function readAxiosInstance(initializer: Node | undefined, axiosNames: Set<string>): string | undefined {
+  if (!initializer || !Node.isCallExpression(initializer)) return undefined;
+
+  const [root, member] = initializer.getExpression().getText().split('.');
+  if (!axiosNames.has(root) || member !== 'create') return undefined;
+
+  const [config] = initializer.getArguments();
+  const baseURL = config && Node.isObjectLiteralExpression(config) ? readProperty(config, 'baseURL') : undefined;
+  return baseURL ? resolveString(baseURL) : '';
+}
+
+/**
+ * 识别单个调用是否为 HTTP 请求
+ */
+function readRequest(
+  call: CallExpression,
+  axiosNames: Set<string>,
+  instances: Map<string, string | undefined>
+): Pick<ApiCallInfo, 'method' | 'url' | 'client'> | undefined {
+  const expression = call.getExpression();
+  const args = call.getArguments();
+  const [first, second] = args;
+  if (!first) return undefined;
+
+  // 带回调函数参数的多为服务端路由注册（app.get('/users', handler)），不视为请求
+  if (args.some(arg => Node.isArrowFunction(arg) || Node.isFunctionExpression(arg))) {
+    return undefined;
+  }
+
+  const calleeText = expression.getText();
+  const calleeName = calleeText.split('.').pop()!;
+  const clientName = Node.isPropertyAccessExpression(expression) ? expression.getExpression().getText() : calleeText;
+  const isAxios = axiosNames.has(clientName) || instances.has(clientName);
+  const baseURL = instances.get(clientName);
+
+  // fetch(url, { method })
+  if (calleeText === 'fetch' || calleeText === 'window.fetch' || calleeText === 'globalThis.fetch') {
+    const init = second && Node.isObjectLiteralExpression(second) ? second : undefined;
+    return { method: readMethod(init && readProperty(init, 'method')), url: resolveString(first), client: 'fetch' };
+  }
+
+  // axios(config) / axios(url, config) / axios.request(config)
+  if (isAxios && (!Node.isPropertyAccessExpression(expression) || calleeName === 'request')) {
+    return readConfigRequest(first, second, clientName, baseURL);
+  }
+
+  // axios.get(url) / request.post(url) / this.http.get(url)
+  if (Node.isPropertyAccessExpression(expression) && HTTP_METHODS.includes(calleeName)) {
+    const url = withBaseURL(resolveString(first), baseURL);
+    if (isAxios || (isUrlLike(url) && !NON_HTTP_TYPES.includes(expression.getExpression().getType().getSymbol()?.getName() ?? ''))) {
+      return { method: calleeName.toUpperCase(), url, client: clientName };
+    }
+    return undefined;
+  }
+
+  // 自定义请求函数：request(url, { method }) / request({ url, method })
+  if (Node.isIdentifier(expression) && CUSTOM_REQUEST_FUNCTION.test(calleeName)) {
+    const request = readConfigRequest(first, second, clientName, undefined);
+    return request && isUrlLike(request.url) ? request : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * (url, config) 或 (config) 形式的请求参数
+ */
+function readConfigRequest(
+  first: Node,
+  second: Node | undefined,
+  client: string,
+  baseURL: string | undefined
+): Pick<ApiCallInfo, 'method' | 'url' | 'client'> | undefined {
+  if (Node.isObjectLiteralExpression(first)) {
+    const url = readProperty(first, 'url');
+    if (!url) return undefined;
+    return { method: readMethod(readProperty(first, 'method')), url: withBaseURL(resolveString(url), baseURL), client };
+  }
+
+  const config = second && Node.isObjectLiteralExpression(second) ? second : undefined;
+  return { method: readMethod(config && readProperty(config, 'method')), url: withBaseURL(resolveString(first), baseURL), client };
+}
+
+/**
+ * 请求方法（未指定时为 GET）
+ */
+function readMethod(node: Node | undefined): string {
+  if (!node) return 'GET';
+  const method = resolveString(node);
+  return /^[a-z]+$/i.test(method) ? method.toUpperCase() : method;
+}
+
+function readProperty(object: ObjectLiteralExpression, name: string): Node | undefined {
+  const prop = object.getProperty(name);
+  if (Node.isPropertyAssignment(prop)) return prop.getInitializer();
+  if (Node.isShorthandPropertyAssignment(prop)) return prop.getNameNode();
+  return undefined;
+}
+
+/**
+ * 拼接 axios 实例的 baseURL（绝对地址不拼接）
+ */
+function withBaseURL(url: string, baseURL: string | undefined): string {
+  if (!baseURL || /^https?:\/\//.test(url)) return url;
+  return `${baseURL.replace(/\/$/, '')}/${url.replace(/^\//, '')}`;
+}
+
+function isUrlLike(url: string): boolean {
+  return /^(https?:\/\/|\/)/.test(url) || /^\{[^}]+\}\//.test(url);
+}
+
+/**
+ * 将表达式静态展开为字符串：字面量、模板字符串、+ 拼接、常量及对象常量属性（可跨文件）
+ * 无法展开的部分保留为 {表达式}
+ */
+function resolveString(node: Node, depth: number = 0): string {
+  if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node) || Node.isNumericLiteral(node)) {
+    return String(node.getLiteralValue());
+  }
+  if (Node.isTemplateExpression(node)) {
+    return node.getHead().getLiteralText() + node.getTemplateSpans()
+      .map(span => resolveString(span.getExpression(), depth) + span.getLiteral().getLiteralText())
+      .join('');
+  }
+  if (Node.isBinaryExpression(node) && node.getOperatorToken().getKind() === SyntaxKind.PlusToken) {
+    return resolveString(node.getLeft(), depth) + resolveString(node.getRight(), depth);
+  }
+  if (Node.isParenthesizedExpression(node) || Node.isAsExpression(node)) {
+    return resolveString(node.getExpression(), depth);
+  }
+  if ((Node.isIdentifier(node) || Node.isPropertyAccessExpression(node)) && depth < MAX_RESOLVE_DEPTH) {
+    const value = resolveConstant(node);
+    if (value) {
+      return resolveString(value, depth + 1);
+    }
+  }
+  return `{${node.getText()}}`;
+}
+
+/**
+ * 常量引用的初始化表达式（const 变量、对象属性、枚举成员）
+ */
+function resolveConstant(node: Node): Node | undefined {
+  let symbol = node.getSymbol();
+  if (symbol?.isAlias()) {
+    symbol = symbol.getAliasedSymbol();
+  }
+
+  const declaration = symbol?.getDeclarations()[0];
+  if (Node.isVariableDeclaration(declaration) && declaration.getVariableStatement()?.getDeclarationKind() === 'const') {
+    return declaration.getInitializer();
+  }
+  if (Node.isPropertyAssignment(declaration) || Node.isEnumMember(declaration)) {
+    return declaration.getInitializer();
+  }
+  return undefined;
+}
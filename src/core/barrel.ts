@@ -0,0 +1,62 @@
+import { ExportDeclaration } from 'ts-morph';
+import type { ReExportInfo } from './scanner.js';
+
+/**
+ * 沿 barrel 链查找时所需的文件导出信息
+ */
+export interface BarrelModule {
+  exports: string[];
+  reExports: Array<{ resolvedPath: string; reExport: ReExportInfo }>;   // 可解析到本地文件的 export ... from
+}
+
+/**
+ * 读取 export ... from 声明的重导出信息
+ */
+export function readReExport(decl: ExportDeclaration): ReExportInfo {
+  const namedExports = decl.getNamedExports();
+  const names: Record<string, string> = {};
+  namedExports.forEach(n => {
+    names[n.getAliasNode()?.getText() ?? n.getName()] = n.getName();
+  });
+  const namespaceExport = decl.getNamespaceExport()?.getName();
+  if (namespaceExport) {
+    names[namespaceExport] = '*';
+  }
+  return { all: namedExports.length === 0 && !namespaceExport, names };
+}
+
+/**
+ * 沿 barrel 文件的重导出链查找导出名的实际定义文件（scanner 与 tracer 共用）
+ * @param getModule 读取文件的导出信息，文件不存在或不在分析范围内时返回 undefined
+ */
+export function findSymbolSource(
+  filePath: string,
+  name: string,
+  getModule: (filePath: string) => BarrelModule | undefined,
+  visited: Set<string> = new Set()
+): string | undefined {
+  const module = visited.has(filePath) ? undefined : getModule(filePath);
+  if (!module) return undefined;
+  visited.add(filePath);
+
+  // 显式重导出优先于 export *
+  for (const { resolvedPath, reExport } of module.reExports) {
+    const original = reExport.names[name];
+    if (original === '*') {
+      return resolvedPath;
+    }
+    if (original) {
+      return findSymbolSource(resolvedPath, original, getModule, visited) ?? resolvedPath;
+    }
+  }
+
+  // export * 不包含 default 导出
+  if (name !== 'default') {
+    for (const { resolvedPath } of module.reExports.filter(({ reExport }) => reExport.all)) {
+      const found = findSymbolSource(resolvedPath, name, getModule, visited);
+      if (found) return found;
+    }
+  }
+
+  return module.exports.includes(name) ? filePath : undefined;
+}
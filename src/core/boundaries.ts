@@ -0,0 +1,108 @@
+import path from 'path';
+import type { BoundaryRule, BoundarySelector } from './config.js';
+import type { FileAnalysis, ProjectMap } from './scanner.js';
+import { FilePatternMatcher, toArray } from './role-rules.js';
+
+/**
+ * 违反边界规则的依赖
+ */
+export interface BoundaryViolation {
+  file: string;               // 导入方文件（相对路径）
+  line?: number;              // 导入语句所在行
+  moduleSpecifier: string;
+  target: string;             // 被导入文件（相对路径）
+  via?: string;               // 经 barrel 文件导入时的 barrel 文件
+  rule: number;               // 命中的规则序号（从 1 开始）
+  message?: string;
+}
+
+interface CompiledSelector {
+  files?: FilePatternMatcher;
+  roles?: string[];
+}
+
+interface CompiledRule {
+  from: CompiledSelector;
+  to: CompiledSelector;
+  deny: boolean;
+  allowTypeOnly: boolean;
+  message?: string;
+}
+
+/**
+ * 依赖边界检查
+ * 遍历项目地图中的本地依赖（含经 barrel 文件解析到的实际定义文件），按声明顺序匹配边界规则
+ */
+export class BoundaryChecker {
+  private rules: CompiledRule[];
+  private byPath: Map<string, FileAnalysis>;
+
+  constructor(private projectMap: ProjectMap, rules: BoundaryRule[]) {
+    this.byPath = new Map(projectMap.files.map(file => [file.relativePath, file]));
+    this.rules = rules.map(rule => ({
+      from: compileSelector(rule.from),
+      to: compileSelector(rule.to),
+      deny: rule.action !== 'allow',
+      allowTypeOnly: rule.allowTypeOnly ?? false,
+      message: rule.message,
+    }));
+  }
+
+  check(): BoundaryViolation[] {
+    const violations: BoundaryViolation[] = [];
+
+    this.projectMap.files.forEach(file => {
+      file.imports.forEach(imp => {
+        if (!imp.isLocal || !imp.resolvedPath) return;
+        const resolved = path.relative(this.projectMap.rootPath, imp.resolvedPath);
+
+        // 直接导入的文件，以及经 barrel 文件导入的符号实际所在的文件
+        const targets = [
+          { target: resolved, via: undefined },
+          ...[...new Set(Object.values(imp.symbolSources ?? {}))].map(source => ({ target: source, via: resolved })),
+        ];
+
+        // 已按直接导入报告的规则不再重复报告 barrel 背后的文件
+        const reported = new Set<number>();
+        targets.forEach(({ target, via }) => {
+          const targetFile = this.byPath.get(target);
+          if (!targetFile || target === file.relativePath) return;
+
+          const index = this.rules.findIndex(rule => matches(rule.from, file) && matches(rule.to, targetFile));
+          const rule = this.rules[index];
+          if (!rule?.deny || (rule.allowTypeOnly && imp.isTypeOnly) || reported.has(index)) return;
+          if (!via) reported.add(index);
+
+          violations.push({
+            file: file.relativePath,
+            line: imp.line,
+            moduleSpecifier: imp.moduleSpecifier,
+            target,
+            via,
+            rule: index + 1,
+            message: rule.message,
+          });
+        });
+      });
+    });
+
+    return violations.sort((a, b) => a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0));
+  }
+}
+
+function compileSelector(selector: BoundarySelector): CompiledSelector {
+  return {
+    files: selector.files ? new FilePatternMatcher(toArray(selector.files)) : undefined,
+    roles: selector.roles ? toArray(selector.roles) : undefined,
+  };
+}
+
+function matches(selector: CompiledSelector, file: FileAnalysis): boolean {
+  if (selector.files && !selector.files.matches(file.relativePath)) {
+    return false;
+  }
+  if (selector.roles && !selector.roles.includes(file.role)) {
+    return false;
+  }
+  return true;
+}
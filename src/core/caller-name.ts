@@ -0,0 +1,25 @@
+import { Node, SyntaxKind } from 'ts-morph';
+
+/**
+ * 节点所在的具名函数：函数声明、赋值给变量或对象属性的函数（含 forwardRef / memo 包装）、类方法
+ * 顶层代码返回 undefined
+ */
+export function getCallerName(node: Node): string | undefined {
+  let insideFunction = false;
+
+  for (const ancestor of node.getAncestors()) {
+    if (Node.isFunctionDeclaration(ancestor)) {
+      return ancestor.getName() ?? 'default';
+    }
+    if (Node.isMethodDeclaration(ancestor)) {
+      const className = ancestor.getParentIfKind(SyntaxKind.ClassDeclaration)?.getName();
+      return className ? `${className}.${ancestor.getName()}` : ancestor.getName();
+    }
+    if (Node.isArrowFunction(ancestor) || Node.isFunctionExpression(ancestor)) {
+      insideFunction = true;
+    } else if ((Node.isVariableDeclaration(ancestor) || Node.isPropertyAssignment(ancestor)) && insideFunction) {
+      return ancestor.getName();
+    }
+  }
+  return undefined;
+}
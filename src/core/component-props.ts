@@ -0,0 +1,188 @@
+import {
+  SourceFile,
+  SyntaxKind,
+  Node,
+  Type,
+  TypeNode,
+  ts,
+  ArrowFunction,
+  FunctionDeclaration,
+  FunctionExpression,
+  VariableDeclaration,
+} from 'ts-morph';
+import { extractDoc } from './doc-comments.js';
+
+/**
+ * 组件 Props
+ */
+export interface PropInfo {
+  name: string;
+  type: string;
+  optional: boolean;
+  defaultValue?: string;      // 解构参数中的默认值
+  description?: string;       // 属性上的文档注释摘要
+}
+
+/**
+ * React 函数组件
+ */
+export interface ComponentInfo {
+  name: string;
+  props: PropInfo[];
+  isExported: boolean;
+}
+
+type ComponentFunction = FunctionDeclaration | FunctionExpression | ArrowFunction;
+
+/**
+ * React.FC<P> 一类的组件类型
+ */
+const COMPONENT_TYPES = ['FC', 'FunctionComponent', 'VFC', 'VoidFunctionComponent'];
+
+/**
+ * 包装组件的高阶函数，值为 Props 泛型参数的位置（forwardRef<Ref, Props>）
+ */
+const COMPONENT_WRAPPERS: Record<string, number> = { forwardRef: 1, memo: 0 };
+
+/**
+ * 提取文件中的函数组件及其 Props
+ * isComponent 判断函数是否返回 JSX；forwardRef / memo 包装的函数始终视为组件
+ */
+export function extractComponents(sourceFile: SourceFile, isComponent: (fn: ComponentFunction) => boolean): ComponentInfo[] {
+  const components: ComponentInfo[] = [];
+
+  sourceFile.getFunctions().forEach(fn => {
+    const name = fn.getName() ?? (fn.isDefaultExport() ? 'default' : undefined);
+    if (name && (name === 'default' || isPascalCase(name)) && isComponent(fn)) {
+      components.push({ name, props: extractProps(fn), isExported: fn.isExported() });
+    }
+  });
+
+  sourceFile.getVariableDeclarations().forEach(decl => {
+    const name = decl.getName();
+    const initializer = decl.getInitializer();
+    if (!initializer || !isPascalCase(name)) return;
+
+    if (Node.isArrowFunction(initializer) || Node.isFunctionExpression(initializer)) {
+      if (isComponent(initializer) || getComponentTypeArgument(decl)) {
+        components.push({ name, props: extractProps(initializer, getComponentTypeArgument(decl)), isExported: decl.isExported() });
+      }
+      return;
+    }
+
+    const wrapped = unwrapComponent(initializer);
+    if (wrapped) {
+      components.push({ name, props: extractProps(wrapped.fn, wrapped.propsType), isExported: decl.isExported() });
+    }
+  });
+
+  return components;
+}
+
+/**
+ * 解析组件第一个参数的类型并读取属性
+ * 类型来源优先级：参数类型注解 > React.FC<P> / forwardRef<R, P> 泛型参数 > 上下文推断
+ */
+function extractProps(fn: ComponentFunction, propsTypeNode?: TypeNode): PropInfo[] {
+  const [param] = fn.getParameters();
+  if (!param) return [];
+
+  const typeNode = param.getTypeNode() ?? propsTypeNode;
+  const propsType = typeNode ? typeNode.getType() : param.getType();
+  const defaults = getDestructuredDefaults(fn);
+
+  return propsType.getProperties()
+    .map((symbol): PropInfo | undefined => {
+      const declaration = symbol.getDeclarations()[0];
+      // 继承自第三方类型（如 React.HTMLAttributes）的属性不展开
+      if (declaration && declaration.getSourceFile().isInNodeModules()) {
+        return undefined;
+      }
+
+      const name = symbol.getName();
+      const optional = symbol.hasFlags(ts.SymbolFlags.Optional);
+      return {
+        name,
+        type: getPropTypeText(symbol.getTypeAtLocation(param), param, optional),
+        optional,
+        defaultValue: defaults.get(name),
+        description: declaration ? extractDoc(declaration)?.summary || undefined : undefined,
+      };
+    })
+    .filter((prop): prop is PropInfo => prop !== undefined);
+}
+
+/**
+ * 解构参数（或函数体内解构 props）中的默认值
+ */
+function getDestructuredDefaults(fn: ComponentFunction): Map<string, string> {
+  const defaults = new Map<string, string>();
+  const [param] = fn.getParameters();
+  const nameNode = param.getNameNode();
+
+  const patterns = Node.isObjectBindingPattern(nameNode)
+    ? [nameNode]
+    : fn.getDescendantsOfKind(SyntaxKind.VariableDeclaration)
+      .filter(decl => decl.getInitializer()?.getText() === param.getName())
+      .map(decl => decl.getNameNode())
+      .filter(Node.isObjectBindingPattern);
+
+  patterns.forEach(pattern => {
+    pattern.getElements().forEach(element => {
+      const initializer = element.getInitializer();
+      if (initializer && !element.getDotDotDotToken()) {
+        const propName = element.getPropertyNameNode()?.getText() ?? element.getName();
+        defaults.set(propName, initializer.getText());
+      }
+    });
+  });
+
+  return defaults;
+}
+
+/**
+ * const Button: React.FC<ButtonProps> = ... 中的 ButtonProps
+ */
+function getComponentTypeArgument(decl: VariableDeclaration): TypeNode | undefined {
+  const typeNode = decl.getTypeNode();
+  if (!typeNode || !Node.isTypeReference(typeNode)) return undefined;
+
+  const typeName = typeNode.getTypeName().getText().split('.').pop()!;
+  return COMPONENT_TYPES.includes(typeName) ? typeNode.getTypeArguments()[0] : undefined;
+}
+
+/**
+ * 展开 forwardRef(...) / memo(...) / memo(forwardRef(...))
+ */
+function unwrapComponent(node: Node): { fn: ComponentFunction; propsType?: TypeNode } | undefined {
+  if (!Node.isCallExpression(node)) return undefined;
+
+  const wrapperName = node.getExpression().getText().split('.').pop()!;
+  const propsIndex = COMPONENT_WRAPPERS[wrapperName];
+  if (propsIndex === undefined) return undefined;
+
+  const [arg] = node.getArguments();
+  const propsType = node.getTypeArguments()[propsIndex];
+  if (arg && (Node.isArrowFunction(arg) || Node.isFunctionExpression(arg))) {
+    return { fn: arg, propsType };
+  }
+
+  const inner = arg ? unwrapComponent(arg) : undefined;
+  return inner ? { fn: inner.fn, propsType: inner.propsType ?? propsType } : undefined;
+}
+
+/**
+ * 属性类型文本（可选属性去掉自动附加的 | undefined 及函数类型外层的括号）
+ */
+function getPropTypeText(type: Type, enclosingNode: Node, optional: boolean): string {
+  const text = type.getText(enclosingNode, ts.TypeFormatFlags.UseAliasDefinedOutsideCurrentScope);
+  if (!optional || !text.endsWith(' | undefined')) {
+    return text;
+  }
+  const stripped = text.slice(0, -' | undefined'.length);
+  return /^\(.*\)$/.test(stripped) ? stripped.slice(1, -1) : stripped;
+}
+
+function isPascalCase(name: string): boolean {
+  return /^[A-Z][A-Za-z0-9]*$/.test(name);
+}
@@ -0,0 +1,275 @@
+import { ts } from 'ts-morph';
+import path from 'path';
+import fs from 'fs';
+import { pathToFileURL } from 'url';
+
+/**
+ * 项目配置文件名（按顺序查找，同一目录下 .ts 优先）
+ */
+export const CONFIG_FILE_NAMES = ['ai-pilot.config.ts', 'ai-pilot.config.json'];
+
+/**
+ * 默认输出目录（相对项目根目录）
+ */
+export const DEFAULT_OUTPUT_DIR = 'ai-context';
+
+/**
+ * task 默认包含的匹配文件数
+ */
+export const DEFAULT_TASK_MAX_MATCHES = 5;
+
+/**
+ * trace 默认的下游依赖递归深度
+ */
+export const DEFAULT_TRACE_DEPTH = 3;
+
+/**
+ * 产品文档章节（PRODUCT_OVERVIEW.md，按此顺序输出）
+ */
+export const DOC_SECTIONS = [
+  'overview',
+  'techStack',
+  'architecture',
+  'modules',
+  'components',
+  'hooks',
+  'pages',
+  'apis',
+  'env',
+  'dataModels',
+  'dependencies',
+] as const;
+
+export type DocSection = typeof DOC_SECTIONS[number];
+
+/**
+ * 文件角色规则
+ * 所有声明的条件同时满足时命中，按声明顺序优先于内置识别逻辑
+ */
+export interface RoleRule {
+  role: string;                   // 角色名（可使用内置角色或自定义名称）
+  files?: string | string[];      // 文件匹配模式（gitignore 语法；以 / 开头时相对项目根目录，否则匹配任意层级）
+  exports?: string;               // 导出名正则（任一导出匹配即可）
+  calls?: string | string[];      // 调用了其中任一函数（如 createSlice）
+  imports?: string | string[];    // 导入了其中任一模块（含子路径）
+  jsx?: boolean;                  // 是否包含返回 JSX 的函数
+}
+
+/**
+ * 依赖边界规则中的文件选择器，声明的条件同时满足时命中
+ */
+export interface BoundarySelector {
+  files?: string | string[];      // 文件匹配模式（gitignore 语法；以 / 开头时相对项目根目录，否则匹配任意层级）
+  roles?: string | string[];      // 文件角色（内置角色或自定义角色名）
+}
+
+/**
+ * 依赖边界规则
+ * 按声明顺序取第一个同时命中 from（导入方）与 to（被导入文件）的规则，没有规则命中的依赖允许
+ */
+export interface BoundaryRule {
+  from: BoundarySelector;
+  to: BoundarySelector;
+  action?: 'allow' | 'deny';      // 默认 deny；allow 用于在更宽泛的 deny 规则之前声明例外
+  allowTypeOnly?: boolean;        // 仅类型导入（import type）不受该规则限制
+  message?: string;               // 违反规则时的提示
+}
+
+/**
+ * 项目配置
+ */
+export interface AiPilotConfig {
+  include?: string[];             // 扫描的文件模式（相对项目根目录，设置后不再自动检测目录结构）
+  exclude?: string[];             // 额外排除的文件（gitignore 语法，与 .ai-pilot-ignore 合并）
+  output?: string;                // 输出目录（相对项目根目录）
+  task?: {
+    maxMatches?: number;          // 任务文档包含的匹配文件数
+  };
+  trace?: {
+    depth?: number;               // 下游依赖的递归深度
+  };
+  docs?: {
+    sections?: DocSection[];      // 产品文档包含的章节及顺序
+  };
+  unused?: {
+    entries?: string[];           // 额外的入口文件（gitignore 语法），其导出视为已使用且不判定为孤立文件
+  };
+  roles?: RoleRule[];
+  boundaries?: BoundaryRule[];
+}
+
+/**
+ * 命令运行时使用的项目上下文
+ */
+export interface ProjectContext {
+  projectPath: string;            // 项目根目录
+  outputPath: string;             // 输出目录（scan 写入、task 读取）
+  config: AiPilotConfig;
+  configFile?: string;            // 生效的配置文件
+}
+
+/**
+ * 从起始目录向上查找配置文件
+ */
+export function findConfigFile(startDir: string): string | undefined {
+  let dir = path.resolve(startDir);
+
+  while (true) {
+    for (const fileName of CONFIG_FILE_NAMES) {
+      const configFile = path.join(dir, fileName);
+      if (fs.existsSync(configFile)) {
+        return configFile;
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * 读取并校验配置文件
+ */
+export async function loadConfigFile(configFile: string): Promise<AiPilotConfig> {
+  let config: AiPilotConfig;
+  try {
+    config = configFile.endsWith('.ts')
+      ? await importTsConfig(configFile)
+      : JSON.parse(fs.readFileSync(configFile, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`配置文件解析失败: ${configFile} (${error.message})`);
+  }
+
+  validateConfig(config ?? {});
+  return config ?? {};
+}
+
+/**
+ * 解析命令的项目上下文
+ * 未指定 --path 时从当前目录向上查找配置文件，项目根目录为配置文件所在目录；
+ * 命令行参数优先于配置文件
+ */
+export async function resolveProjectContext(options: { path?: string; output?: string }): Promise<ProjectContext> {
+  const startDir = path.resolve(options.path ?? process.cwd());
+  const configFile = findConfigFile(startDir);
+  const config = configFile ? await loadConfigFile(configFile) : {};
+
+  const projectPath = options.path || !configFile ? startDir : path.dirname(configFile);
+  const outputPath = options.output
+    ? path.resolve(options.output)
+    : path.resolve(projectPath, config.output ?? DEFAULT_OUTPUT_DIR);
+
+  return { projectPath, outputPath, config, configFile };
+}
+
+/**
+ * 将 .ts 配置转译为临时 .mjs 后导入（与配置文件同目录，保证相对导入可用）
+ */
+async function importTsConfig(configFile: string): Promise<AiPilotConfig> {
+  const source = fs.readFileSync(configFile, 'utf-8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+    },
+    fileName: configFile,
+  });
+
+  const tempFile = path.join(path.dirname(configFile), `.ai-pilot.config.${process.pid}.mjs`);
+  fs.writeFileSync(tempFile, outputText);
+  try {
+    const module = await import(pathToFileURL(tempFile).href);
+    return module.default;
+  } finally {
+    fs.rmSync(tempFile, { force: true });
+  }
+}
+
+/**
+ * 校验配置
+ */
+function validateConfig(config: AiPilotConfig): void {
+  if (typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error('配置文件必须导出一个对象');
+  }
+
+  (['include', 'exclude'] as const).forEach(key => {
+    const value = config[key];
+    if (value !== undefined && (!Array.isArray(value) || value.some(item => typeof item !== 'string'))) {
+      throw new Error(`配置项 ${key} 必须是字符串数组`);
+    }
+  });
+
+  const entries = config.unused?.entries;
+  if (entries !== undefined && (!Array.isArray(entries) || entries.some(item => typeof item !== 'string'))) {
+    throw new Error('配置项 unused.entries 必须是字符串数组');
+  }
+
+  const maxMatches = config.task?.maxMatches;
+  if (maxMatches !== undefined && !(Number.isInteger(maxMatches) && maxMatches > 0)) {
+    throw new Error('配置项 task.maxMatches 必须是正整数');
+  }
+
+  const depth = config.trace?.depth;
+  if (depth !== undefined && !(Number.isInteger(depth) && depth >= 0)) {
+    throw new Error('配置项 trace.depth 必须是非负整数');
+  }
+
+  const unknownSections = (config.docs?.sections ?? []).filter(section => !DOC_SECTIONS.includes(section));
+  if (unknownSections.length > 0) {
+    throw new Error(`未知的文档章节: ${unknownSections.join(', ')}（可选: ${DOC_SECTIONS.join(', ')}）`);
+  }
+
+  validateRoleRules(config.roles ?? []);
+  validateBoundaryRules(config.boundaries ?? []);
+}
+
+/**
+ * 校验角色规则
+ */
+function validateRoleRules(rules: RoleRule[]): void {
+  if (!Array.isArray(rules)) {
+    throw new Error('配置项 roles 必须是数组');
+  }
+
+  rules.forEach((rule, index) => {
+    if (!rule.role || typeof rule.role !== 'string') {
+      throw new Error(`角色规则 #${index + 1} 缺少 role 字段`);
+    }
+    const hasCondition = ['files', 'exports', 'calls', 'imports', 'jsx'].some(key => key in rule);
+    if (!hasCondition) {
+      throw new Error(`角色规则 #${index + 1} (${rule.role}) 至少需要一个匹配条件`);
+    }
+    if (rule.exports) {
+      try {
+        new RegExp(rule.exports);
+      } catch {
+        throw new Error(`角色规则 #${index + 1} (${rule.role}) 的 exports 不是合法的正则: ${rule.exports}`);
+      }
+    }
+  });
+}
+
+/**
+ * 校验依赖边界规则
+ */
+function validateBoundaryRules(rules: BoundaryRule[]): void {
+  if (!Array.isArray(rules)) {
+    throw new Error('配置项 boundaries 必须是数组');
+  }
+
+  rules.forEach((rule, index) => {
+    (['from', 'to'] as const).forEach(key => {
+      const selector = rule[key];
+      if (!selector || typeof selector !== 'object' || (selector.files === undefined && selector.roles === undefined)) {
+        throw new Error(`边界规则 #${index + 1} 的 ${key} 至少需要 files 或 roles 条件`);
+      }
+    });
+    if (rule.action !== undefined && rule.action !== 'allow' && rule.action !== 'deny') {
+      throw new Error(`边界规则 #${index + 1} 的 action 必须是 allow 或 deny`);
+    }
+  });
+}
@@ -2,6 +2,10 @@ import { Project, SourceFile, SyntaxKind } from 'ts-morph';
 import path from 'path';
 import fs from 'fs';
 import { FileAnalysis, ProjectMap } from './scanner.js';
+import { ModuleResolver } from './module-resolver.js';
+import { loadSourceFile } from './source-loader.js';
+import { formatSignature } from './signature.js';
+import { extractDoc, getDocText, DocInfo } from './doc-comments.js';
 
 /**
  * 上下文匹配结果
@@ -22,15 +26,17 @@ export interface CodeSummary {
   exports: ExportInfo[];
   interfaces: InterfaceDefinition[];
   types: TypeDefinition[];
+  enums: EnumDefinition[];
   dependencies: string[];
   sourceCode?: string; // 完整源代码
 }
 
 export interface ExportInfo {
   name: string;
-  type: 'function' | 'class' | 'interface' | 'type' | 'const';
+  type: 'function' | 'class' | 'interface' | 'type' | 'enum' | 'const';
   signature?: string;
   isDefault?: boolean;
+  doc?: DocInfo;
 }
 
 export interface InterfaceDefinition {
@@ -43,6 +49,11 @@ export interface TypeDefinition {
   definition: string;
 }
 
+export interface EnumDefinition {
+  name: string;
+  members: { name: string; value?: string }[];
+}
+
 export interface PropertyInfo {
   name: string;
   type: string;
@@ -62,8 +73,10 @@ export interface RelatedFileInfo {
 export class ContextFinder {
   private project: Project;
   private projectMap: ProjectMap | null = null;
+  private moduleResolver: ModuleResolver;
 
   constructor(private rootPath: string) {
+    this.moduleResolver = new ModuleResolver(rootPath);
     const tsConfigPath = path.join(rootPath, 'tsconfig.json');
     const hasTsConfig = fs.existsSync(tsConfigPath);
     
@@ -89,9 +102,7 @@ export class ContextFinder {
     
     // 添加所有文件到 ts-morph 项目中
     for (const file of projectMap.files) {
-      if (!this.project.getSourceFile(file.filePath)) {
-        this.project.addSourceFileAtPath(file.filePath);
-      }
+      loadSourceFile(this.project, file.filePath);
     }
   }
 
@@ -134,6 +145,12 @@ export class ContextFinder {
       if (token.match(/[\w-]+\.(ts|tsx|js|jsx)/)) {
         keywords.add(token);
       }
+
+      // 提取接口路径（如 /user/profile）
+      const urlPath = token.match(/\/[\w:{}[\].-]+(\/[\w:{}[\].-]+)*/);
+      if (urlPath) {
+        keywords.add(normalizeUrlPath(urlPath[0]));
+      }
     });
     
     return Array.from(keywords);
@@ -182,6 +199,8 @@ export class ContextFinder {
     // 文件路径匹配
     const filePathLower = file.relativePath.toLowerCase();
     const fileNameLower = path.basename(file.filePath).toLowerCase();
+    const docText = this.getFileDocText(file).toLowerCase();
+    const apiUrls = (file.apiCalls ?? []).map(call => normalizeUrlPath(call.url));
     
     for (const keyword of keywords) {
       // 文件名完全匹配 - 高分
@@ -211,18 +230,57 @@ export class ContextFinder {
         }
       }
       
-      // 接口/类型名匹配 - 中分
-      for (const iface of file.interfaces) {
-        if (iface.name?.toLowerCase().includes(keyword)) {
+      // 接口/类型名匹配 - 中分（旧版地图没有 typeAliases / enums）
+      const typeNames = [
+        ...file.interfaces.map(iface => iface.name),
+        ...(file.typeAliases ?? []).map(alias => alias.name),
+        ...(file.enums ?? []).map(enumInfo => enumInfo.name),
+      ];
+      for (const typeName of typeNames) {
+        if (typeName?.toLowerCase().includes(keyword)) {
           score += 6;
           matchedKeywords.push(keyword);
         }
       }
+
+      // 枚举成员匹配 - 低分
+      for (const enumInfo of file.enums ?? []) {
+        if (enumInfo.members.some(member => member.name.toLowerCase().includes(keyword))) {
+          score += 3;
+          matchedKeywords.push(keyword);
+        }
+      }
+
+      // 文档注释描述匹配 - 低分（每个关键词计一次）
+      if (docText.includes(keyword)) {
+        score += 4;
+        matchedKeywords.push(keyword);
+      }
+
+      // 请求 URL 匹配 - 路径关键词高分，单词低分（旧版地图没有 apiCalls）
+      if (apiUrls.some(url => url.includes(keyword))) {
+        score += keyword.includes('/') ? 12 : 3;
+        matchedKeywords.push(keyword);
+      }
     }
     
     return { score, matchedKeywords: [...new Set(matchedKeywords)] };
   }
 
+  /**
+   * 文件内所有文档注释的描述文本
+   */
+  private getFileDocText(file: FileAnalysis): string {
+    const docs = [
+      ...file.functions.map(fn => fn.doc),
+      ...file.classes.flatMap(cls => [cls.doc, ...cls.methods.map(m => typeof m === 'object' ? m.doc : undefined)]),
+      ...file.interfaces.map(iface => iface.doc),
+      ...(file.typeAliases ?? []).map(alias => alias.doc),
+      ...(file.enums ?? []).map(enumInfo => enumInfo.doc),
+    ];
+    return docs.filter((doc): doc is DocInfo => doc !== undefined).map(getDocText).join('\n');
+  }
+
   /**
    * 提取文件的代码摘要
    */
@@ -235,6 +293,7 @@ export class ContextFinder {
         exports: [],
         interfaces: [],
         types: [],
+        enums: [],
         dependencies: [],
       };
     }
@@ -244,12 +303,14 @@ export class ContextFinder {
       exports: this.extractExports(sourceFile),
       interfaces: this.extractInterfaces(sourceFile),
       types: this.extractTypes(sourceFile),
+      enums: this.extractEnums(sourceFile),
       dependencies: this.extractDependencies(sourceFile),
     };
 
     // 如果需要包含源代码
     if (includeSource) {
-      summary.sourceCode = sourceFile.getFullText();
+      // .vue 的 AST 只包含脚本部分，源代码取原文件（含模板）
+      summary.sourceCode = filePath.endsWith('.vue') ? fs.readFileSync(filePath, 'utf-8') : sourceFile.getFullText();
     }
 
     return summary;
@@ -260,15 +321,18 @@ export class ContextFinder {
    */
   private extractExports(sourceFile: SourceFile): ExportInfo[] {
     const exports: ExportInfo[] = [];
+    const signatures = this.getSignatures(sourceFile.getFilePath());
 
     // 提取命名导出的函数
     sourceFile.getFunctions().forEach(func => {
       if (func.isExported()) {
+        const name = func.getName() || 'anonymous';
         exports.push({
-          name: func.getName() || 'anonymous',
+          name,
           type: 'function',
-          signature: func.getSignature().getDeclaration().getText(),
+          signature: signatures.get(name) ?? func.getSignature().getDeclaration().getText(),
           isDefault: func.isDefaultExport(),
+          doc: extractDoc(func),
         });
       }
     });
@@ -279,8 +343,9 @@ export class ContextFinder {
         exports.push({
           name: cls.getName() || 'anonymous',
           type: 'class',
-          signature: `class ${cls.getName()} { ... }`,
+          signature: signatures.get(cls.getName() || 'anonymous') ?? `class ${cls.getName()} { ... }`,
           isDefault: cls.isDefaultExport(),
+          doc: extractDoc(cls),
         });
       }
     });
@@ -292,6 +357,7 @@ export class ContextFinder {
           name: iface.getName(),
           type: 'interface',
           isDefault: false,
+          doc: extractDoc(iface),
         });
       }
     });
@@ -303,6 +369,19 @@ export class ContextFinder {
           name: typeAlias.getName(),
           type: 'type',
           isDefault: false,
+          doc: extractDoc(typeAlias),
+        });
+      }
+    });
+
+    // 提取命名导出的枚举
+    sourceFile.getEnums().forEach(enumDecl => {
+      if (enumDecl.isExported()) {
+        exports.push({
+          name: enumDecl.getName(),
+          type: 'enum',
+          isDefault: false,
+          doc: extractDoc(enumDecl),
         });
       }
     });
@@ -311,10 +390,13 @@ export class ContextFinder {
     sourceFile.getVariableStatements().forEach(stmt => {
       if (stmt.isExported()) {
         stmt.getDeclarations().forEach(decl => {
+          const signature = signatures.get(decl.getName());
           exports.push({
             name: decl.getName(),
-            type: 'const',
+            type: signature ? 'function' : 'const',
+            signature,
             isDefault: stmt.isDefaultExport(),
+            doc: extractDoc(decl),
           });
         });
       }
@@ -323,6 +405,29 @@ export class ContextFinder {
     return exports;
   }
 
+  /**
+   * 从项目地图读取函数和类的签名（旧版地图没有类型信息时为空）
+   */
+  private getSignatures(filePath: string): Map<string, string> {
+    const analysis = this.projectMap?.files.find(f => f.filePath === filePath);
+    const signatures = new Map<string, string>();
+
+    for (const fn of analysis?.functions ?? []) {
+      if (fn.name && fn.returnType !== undefined) {
+        signatures.set(fn.name, `function ${formatSignature(fn.name, fn)}`);
+      }
+    }
+
+    for (const cls of analysis?.classes ?? []) {
+      const methods = cls.methods.filter(m => typeof m === 'object' && m.scope === 'public');
+      if (cls.name && methods.length > 0) {
+        const lines = methods.map(m => `  ${m.isStatic ? 'static ' : ''}${formatSignature(m.name, m)};`);
+        signatures.set(cls.name, [`class ${cls.name} {`, ...lines, '}'].join('\n'));
+      }
+    }
+    return signatures;
+  }
+
   /**
    * 提取接口定义
    */
@@ -343,7 +448,20 @@ export class ContextFinder {
   private extractTypes(sourceFile: SourceFile): TypeDefinition[] {
     return sourceFile.getTypeAliases().map(typeAlias => ({
       name: typeAlias.getName(),
-      definition: typeAlias.getType().getText(),
+      definition: typeAlias.getTypeNode()?.getText() ?? typeAlias.getType().getText(),
+    }));
+  }
+
+  /**
+   * 提取枚举定义
+   */
+  private extractEnums(sourceFile: SourceFile): EnumDefinition[] {
+    return sourceFile.getEnums().map(enumDecl => ({
+      name: enumDecl.getName(),
+      members: enumDecl.getMembers().map(member => ({
+        name: member.getName(),
+        value: member.getInitializer()?.getText(),
+      })),
     }));
   }
 
@@ -356,8 +474,8 @@ export class ContextFinder {
     sourceFile.getImportDeclarations().forEach(importDecl => {
       const moduleSpecifier = importDecl.getModuleSpecifierValue();
       
-      // 只记录本地文件依赖
-      if (moduleSpecifier.startsWith('.') || moduleSpecifier.startsWith('@/')) {
+      // 只记录本地文件依赖（含路径别名）
+      if (this.moduleResolver.resolve(moduleSpecifier, sourceFile.getFilePath()).isLocal) {
         dependencies.push(moduleSpecifier);
       }
     });
@@ -372,14 +490,15 @@ export class ContextFinder {
     const relatedFiles: RelatedFileInfo[] = [];
     const visited = new Set<string>([file.filePath]);
 
-    // 追溯直接导入的本地文件
+    // 追溯直接导入的本地文件（旧版地图中未解析的别名在此补充解析）
     for (const imp of file.imports) {
-      if (imp.isLocal && imp.resolvedPath && !visited.has(imp.resolvedPath)) {
-        visited.add(imp.resolvedPath);
+      const resolvedPath = imp.resolvedPath ?? this.moduleResolver.resolve(imp.moduleSpecifier, file.filePath).resolvedPath;
+      if (resolvedPath && !visited.has(resolvedPath)) {
+        visited.add(resolvedPath);
         
-        const codeSummary = this.extractCodeSummary(imp.resolvedPath);
+        const codeSummary = this.extractCodeSummary(resolvedPath);
         relatedFiles.push({
-          filePath: imp.resolvedPath,
+          filePath: resolvedPath,
           relationType: 'import',
           codeSummary,
         });
@@ -442,3 +561,11 @@ export class ContextFinder {
   }
 }
 
+/**
+ * 统一 URL 路径写法：小写，动态段（{id}、:id、[id]）替换为 *
+ */
+function normalizeUrlPath(url: string): string {
+  return url.toLowerCase().split('/')
+    .map(segment => /^(\{.*\}|:.+|\[.+\])$/.test(segment) ? '*' : segment)
+    .join('/');
+}
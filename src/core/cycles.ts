@@ -0,0 +1,167 @@
+import path from 'path';
+import type { FileAnalysis, ProjectMap } from './scanner.js';
+
+/**
+ * 循环依赖
+ */
+export interface CycleInfo {
+  files: string[];            // 环上的文件（从字典序最小的文件开始，末尾隐含回到起点）
+  typeOnly: boolean;          // 环上存在仅类型导入的边（编译后该环不复存在）
+  key: string;                // 用于基线比对的唯一标识
+}
+
+/**
+ * 循环依赖检测
+ * 基于项目地图的 dependencyGraph 计算强连通分量（Tarjan），再在每个分量内求经过各文件的最短环
+ */
+export class CycleDetector {
+  private graph: Map<string, string[]>;
+  private byPath: Map<string, FileAnalysis>;
+
+  constructor(private projectMap: ProjectMap) {
+    this.byPath = new Map(projectMap.files.map(file => [file.relativePath, file]));
+    this.graph = new Map(
+      Object.entries(projectMap.dependencyGraph).map(([file, deps]) => [file, [...new Set(deps)].sort()])
+    );
+  }
+
+  /**
+   * 查找全部最短循环路径
+   */
+  findCycles(): CycleInfo[] {
+    const cycles = new Map<string, CycleInfo>();
+
+    this.findStronglyConnectedComponents().forEach(component => {
+      const members = new Set(component);
+      component.forEach(start => {
+        const files = this.findShortestCycle(start, members);
+        if (!files) return;
+
+        const rotated = rotateToSmallest(files);
+        const key = rotated.join(' -> ');
+        if (!cycles.has(key)) {
+          cycles.set(key, { files: rotated, typeOnly: this.hasTypeOnlyEdge(rotated), key });
+        }
+      });
+    });
+
+    return [...cycles.values()].sort((a, b) => a.files.length - b.files.length || a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Tarjan 算法（迭代实现，避免大项目递归过深），返回包含环的强连通分量
+   */
+  private findStronglyConnectedComponents(): string[][] {
+    const indexes = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+    let nextIndex = 0;
+
+    for (const root of [...this.graph.keys()].sort()) {
+      if (indexes.has(root)) continue;
+
+      const work: Array<{ node: string; edge: number }> = [{ node: root, edge: 0 }];
+      indexes.set(root, nextIndex);
+      lowLinks.set(root, nextIndex++);
+      stack.push(root);
+      onStack.add(root);
+
+      while (work.length > 0) {
+        const frame = work[work.length - 1];
+        const edges = this.graph.get(frame.node) ?? [];
+
+        if (frame.edge < edges.length) {
+          const next = edges[frame.edge++];
+          if (!this.graph.has(next)) continue;
+
+          if (!indexes.has(next)) {
+            indexes.set(next, nextIndex);
+            lowLinks.set(next, nextIndex++);
+            stack.push(next);
+            onStack.add(next);
+            work.push({ node: next, edge: 0 });
+          } else if (onStack.has(next)) {
+            lowLinks.set(frame.node, Math.min(lowLinks.get(frame.node)!, indexes.get(next)!));
+          }
+          continue;
+        }
+
+        work.pop();
+        if (work.length > 0) {
+          const parent = work[work.length - 1].node;
+          lowLinks.set(parent, Math.min(lowLinks.get(parent)!, lowLinks.get(frame.node)!));
+        }
+
+        if (lowLinks.get(frame.node) === indexes.get(frame.node)) {
+          const component: string[] = [];
+          let member: string;
+          do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.push(member);
+          } while (member !== frame.node);
+
+          const selfLoop = component.length === 1 && (this.graph.get(frame.node) ?? []).includes(frame.node);
+          if (component.length > 1 || selfLoop) {
+            components.push(component.sort());
+          }
+        }
+      }
+    }
+
+    return components;
+  }
+
+  /**
+   * 在强连通分量内 BFS 求经过 start 的最短环
+   */
+  private findShortestCycle(start: string, members: Set<string>): string[] | undefined {
+    const previous = new Map<string, string>();
+    const queue = [start];
+
+    for (let i = 0; i < queue.length; i++) {
+      const node = queue[i];
+      for (const next of this.graph.get(node) ?? []) {
+        if (!members.has(next)) continue;
+
+        if (next === start) {
+          const files = [node];
+          while (files[0] !== start) {
+            files.unshift(previous.get(files[0])!);
+          }
+          return files;
+        }
+        if (!previous.has(next) && next !== start) {
+          previous.set(next, node);
+          queue.push(next);
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 环上是否存在仅类型导入的边（该文件对下一文件的全部导入都是 import type）
+   */
+  private hasTypeOnlyEdge(files: string[]): boolean {
+    return files.some((from, index) => {
+      const to = files[(index + 1) % files.length];
+      const imports = (this.byPath.get(from)?.imports ?? []).filter(imp =>
+        (imp.resolvedPath && path.relative(this.projectMap.rootPath, imp.resolvedPath) === to) ||
+        Object.values(imp.symbolSources ?? {}).includes(to)
+      );
+      return imports.length > 0 && imports.every(imp => imp.isTypeOnly);
+    });
+  }
+}
+
+/**
+ * 旋转环使其从字典序最小的文件开始（同一个环得到相同的标识）
+ */
+function rotateToSmallest(files: string[]): string[] {
+  const smallest = files.reduce((min, file) => file < min ? file : min);
+  const index = files.indexOf(smallest);
+  return [...files.slice(index), ...files.slice(0, index)];
+}
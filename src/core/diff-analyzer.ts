@@ -4,6 +4,8 @@ import { promisify } from 'util';
 import path from 'path';
 import fs from 'fs';
 import fse from 'fs-extra';
+import { IgnoreMatcher } from './ignore.js';
+import { loadSourceFile } from './source-loader.js';
 
 const execAsync = promisify(exec);
 
@@ -59,8 +61,12 @@ export interface DiffAnalysis {
 export class GitDiffAnalyzer {
   private project: Project;
   private rootPath: string;
+  private ignoreMatcher?: IgnoreMatcher;
 
-  constructor(rootPath: string) {
+  /**
+   * @param exclude 额外排除的文件（gitignore 语法）
+   */
+  constructor(rootPath: string, private exclude: string[] = []) {
     this.rootPath = rootPath;
     const tsConfigPath = path.join(rootPath, 'tsconfig.json');
     const hasTsConfig = fs.existsSync(tsConfigPath);
@@ -94,6 +100,8 @@ export class GitDiffAnalyzer {
       };
     }
 
+    this.ignoreMatcher = await IgnoreMatcher.load(this.rootPath, this.exclude);
+
     // 2. 分析每个文件的变更
     const fileChanges: FileChange[] = [];
     const summary = { added: 0, modified: 0, deleted: 0 };
@@ -261,7 +269,7 @@ export class GitDiffAnalyzer {
       return [];
     }
 
-    const sourceFile = this.project.addSourceFileAtPath(filePath);
+    const sourceFile = loadSourceFile(this.project, filePath);
     const blocks: CodeBlock[] = [];
     const processedBlocks = new Set<string>();
 
@@ -446,11 +454,14 @@ export class GitDiffAnalyzer {
   }
 
   /**
-   * 判断是否为源代码文件
+   * 判断是否为源代码文件（遵循 .ai-pilot-ignore 规则）
    */
   private isSourceFile(filePath: string): boolean {
     const ext = path.extname(filePath);
-    return ['.ts', '.tsx', '.js', '.jsx'].includes(ext) && !filePath.includes('.test.') && !filePath.includes('.spec.');
+    if (!['.ts', '.tsx', '.js', '.jsx', '.vue'].includes(ext)) {
+      return false;
+    }
+    return !this.ignoreMatcher?.isIgnored(filePath);
   }
 }
 
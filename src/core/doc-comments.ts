@@ -0,0 +1,84 @@
+import { Node, JSDoc } from 'ts-morph';
+
+/**
+ * 文档注释（JSDoc / TSDoc）
+ */
+export interface DocInfo {
+  summary: string;            // 描述的第一段
+  tags: DocTagInfo[];
+  deprecated: boolean;        // 是否标记 @deprecated
+}
+
+export interface DocTagInfo {
+  tag: string;                // 标签名（不含 @），如 param、returns
+  name?: string;              // @param 的参数名
+  text: string;
+}
+
+/**
+ * 读取节点上最近的一段文档注释，没有时返回 undefined
+ * 变量声明（如 export const fn = () => {}）读取所在变量语句上的注释
+ */
+export function extractDoc(node: Node): DocInfo | undefined {
+  const target = Node.isVariableDeclaration(node) ? node.getVariableStatement() : node;
+  if (!target || !Node.isJSDocable(target)) {
+    return undefined;
+  }
+
+  const jsDoc = target.getJsDocs().pop();
+  return jsDoc ? parseJsDoc(jsDoc) : undefined;
+}
+
+/**
+ * 所有可用于匹配的描述文本（描述和标签内容）
+ */
+export function getDocText(doc: DocInfo): string {
+  return [doc.summary, ...doc.tags.map(tag => tag.text)].join(' ');
+}
+
+/**
+ * 单行说明（废弃标记 + 描述），用于列表项
+ */
+export function formatDocSummary(doc: DocInfo | undefined): string {
+  if (!doc) {
+    return '';
+  }
+  const deprecation = doc.tags.find(tag => tag.tag === 'deprecated');
+  return [
+    deprecation ? `⚠️ 已废弃${deprecation.text ? `（${deprecation.text}）` : ''}` : '',
+    doc.summary,
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * 还原为注释块，放在签名之前
+ */
+export function formatDocComment(doc: DocInfo): string {
+  const lines = [
+    ...(doc.summary ? [doc.summary] : []),
+    ...doc.tags.map(tag => [`@${tag.tag}`, tag.name, tag.text].filter(Boolean).join(' ')),
+  ];
+  return ['/**', ...lines.map(line => ` * ${line}`), ' */'].join('\n');
+}
+
+function parseJsDoc(jsDoc: JSDoc): DocInfo {
+  const description = jsDoc.getDescription().trim();
+  const tags = jsDoc.getTags().map(tag => ({
+    tag: tag.getTagName(),
+    name: Node.isJSDocParameterTag(tag) ? tag.getName() : undefined,
+    text: normalize(tag.getCommentText() ?? '').replace(/^-\s*/, ''),
+  }));
+
+  return {
+    summary: normalize(description.split(/\n\s*\n/)[0]),
+    tags,
+    deprecated: tags.some(tag => tag.tag === 'deprecated'),
+  };
+}
+
+/**
+ * 合并多行文本中的空白
+ */
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,113 @@
+import { SourceFile, SyntaxKind, Node, CallExpression } from 'ts-morph';
+
+/**
+ * 导入方式
+ */
+export type ImportKind = 'static' | 'dynamic' | 'require';
+
+/**
+ * 动态导入或 require 调用
+ */
+export interface DynamicImport {
+  moduleSpecifier: string;
+  kind: Exclude<ImportKind, 'static'>;
+  namedImports: string[];     // 解构得到的名称
+  defaultImport?: string;     // 整体赋值的变量名（const x = require('x')）
+  line: number;
+}
+
+/**
+ * 提取 import('x') 和 require('x') 调用（仅处理字符串字面量路径）
+ */
+export function findDynamicImports(sourceFile: SourceFile): DynamicImport[] {
+  const results: DynamicImport[] = [];
+
+  sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression).forEach(call => {
+    const kind = getCallKind(call);
+    const [arg] = call.getArguments();
+    if (!kind || !arg || !(Node.isStringLiteral(arg) || Node.isNoSubstitutionTemplateLiteral(arg))) {
+      return;
+    }
+
+    results.push({
+      moduleSpecifier: arg.getLiteralValue(),
+      kind,
+      ...getBindings(call),
+      line: call.getStartLineNumber(),
+    });
+  });
+
+  return results;
+}
+
+/**
+ * 提取 CommonJS 导出名（module.exports / exports.x）
+ * module.exports = 对象字面量时取其属性名，否则记为 default
+ */
+export function findCommonJsExports(sourceFile: SourceFile): string[] {
+  const names = new Set<string>();
+
+  sourceFile.getDescendantsOfKind(SyntaxKind.BinaryExpression).forEach(expr => {
+    if (expr.getOperatorToken().getKind() !== SyntaxKind.EqualsToken) return;
+    const left = expr.getLeft().getText().replace(/\s+/g, '');
+
+    if (left === 'module.exports') {
+      const right = expr.getRight();
+      if (Node.isObjectLiteralExpression(right)) {
+        right.getProperties().forEach(prop => {
+          if (Node.isPropertyAssignment(prop) || Node.isShorthandPropertyAssignment(prop) || Node.isMethodDeclaration(prop)) {
+            names.add(prop.getName());
+          }
+        });
+      } else {
+        names.add('default');
+      }
+      return;
+    }
+
+    const member = left.match(/^(?:module\.)?exports\.([A-Za-z_$][\w$]*)$/);
+    if (member) {
+      names.add(member[1]);
+    }
+  });
+
+  return [...names];
+}
+
+function getCallKind(call: CallExpression): DynamicImport['kind'] | undefined {
+  const expression = call.getExpression();
+  if (expression.getKind() === SyntaxKind.ImportKeyword) {
+    return 'dynamic';
+  }
+  if (Node.isIdentifier(expression) && expression.getText() === 'require') {
+    return 'require';
+  }
+  return undefined;
+}
+
+/**
+ * 读取调用结果的变量绑定（const { a } = await import('x') / const x = require('x')）
+ */
+function getBindings(call: CallExpression): Pick<DynamicImport, 'namedImports' | 'defaultImport'> {
+  let node: Node = call;
+  let parent = node.getParent();
+  while (parent && (Node.isAwaitExpression(parent) || Node.isParenthesizedExpression(parent))) {
+    node = parent;
+    parent = node.getParent();
+  }
+
+  if (!parent || !Node.isVariableDeclaration(parent) || parent.getInitializer() !== node) {
+    return { namedImports: [] };
+  }
+
+  const nameNode = parent.getNameNode();
+  if (Node.isObjectBindingPattern(nameNode)) {
+    return {
+      namedImports: nameNode.getElements().map(el => el.getPropertyNameNode()?.getText() ?? el.getName()),
+    };
+  }
+  // import() 整体赋值得到的是命名空间对象，不对应 default 导出
+  return call.getExpression().getKind() === SyntaxKind.ImportKeyword
+    ? { namedImports: [] }
+    : { namedImports: [], defaultImport: nameNode.getText() };
+}
@@ -0,0 +1,174 @@
+import { SourceFile, SyntaxKind, Node } from 'ts-morph';
+import type { FileAnalysis } from './scanner.js';
+
+/**
+ * 环境变量的读取方式
+ */
+export type EnvSource = 'process.env' | 'import.meta.env' | 'helper';
+
+/**
+ * 文件中的环境变量读取
+ */
+export interface EnvUsage {
+  name: string;
+  source: EnvSource;
+  helper?: string;            // 经封装函数读取时的函数名（如 getEnv）
+  line: number;
+}
+
+/**
+ * 项目中的环境变量
+ */
+export interface EnvVariableInfo {
+  name: string;
+  files: string[];            // 读取该变量的文件（相对路径）
+  documentedIn: string[];     // 声明该变量的 .env 示例文件
+  builtin: boolean;           // 运行时内置变量（NODE_ENV、import.meta.env.MODE 等）
+}
+
+/**
+ * 环境变量清单
+ */
+export interface EnvInventory {
+  variables: EnvVariableInfo[];
+  exampleFiles: string[];     // 找到的 .env 示例文件
+  undocumented: string[];     // 代码中读取但示例文件未声明的变量
+  unused: string[];           // 示例文件中声明但代码未读取的变量
+}
+
+/**
+ * 运行时内置的环境变量（无需在示例文件中声明）
+ */
+const BUILTIN_ENV_VARS = ['NODE_ENV', 'MODE', 'DEV', 'PROD', 'SSR', 'BASE_URL'];
+
+/**
+ * 环境变量对象
+ */
+const ENV_OBJECTS: Record<string, EnvSource> = {
+  'process.env': 'process.env',
+  'import.meta.env': 'import.meta.env',
+};
+
+/**
+ * 读取环境变量的封装函数（getEnv('KEY')、requireEnv('KEY')、env.get('KEY') 等），匹配调用链末尾的函数名
+ */
+const ENV_HELPER_REGEX = /^(get|require|read)?Env$|^env\.(get|require)$/i;
+
+/**
+ * 环境变量名
+ */
+const ENV_NAME_REGEX = /^[A-Z][A-Z0-9_]*$/;
+
+/**
+ * 提取文件中读取的环境变量
+ * 支持 process.env.KEY、process.env['KEY']、解构、const env = process.env 别名以及封装函数
+ */
+export function extractEnvUsage(sourceFile: SourceFile): EnvUsage[] {
+  const usages: EnvUsage[] = [];
+  const add = (name: string, source: EnvSource, node: Node, helper?: string) => {
+    const line = node.getStartLineNumber();
+    if (!usages.some(usage => usage.name === name && usage.line === line)) {
+      usages.push({ name, source, helper, line });
+    }
+  };
+
+  // const env = process.env 形式的别名
+  const aliases = new Map<string, EnvSource>();
+  sourceFile.getDescendantsOfKind(SyntaxKind.VariableDeclaration).forEach(decl => {
+    const source = getEnvSource(decl.getInitializer());
+    if (!source) return;
+
+    const nameNode = decl.getNameNode();
+    if (Node.isIdentifier(nameNode)) {
+      aliases.set(nameNode.getText(), source);
+    } else if (Node.isObjectBindingPattern(nameNode)) {
+      // const { API_URL, PORT = '3000' } = process.env
+      nameNode.getElements().forEach(element => {
+        if (element.getDotDotDotToken()) return;
+        add(element.getPropertyNameNode()?.getText() ?? element.getName(), source, element);
+      });
+    }
+  });
+
+  const readObject = (node: Node): EnvSource | undefined =>
+    getEnvSource(node) ?? (Node.isIdentifier(node) ? aliases.get(node.getText()) : undefined);
+
+  sourceFile.getDescendantsOfKind(SyntaxKind.PropertyAccessExpression).forEach(access => {
+    const source = readObject(access.getExpression());
+    if (source) {
+      add(access.getName(), source, access);
+    }
+  });
+
+  sourceFile.getDescendantsOfKind(SyntaxKind.ElementAccessExpression).forEach(access => {
+    const source = readObject(access.getExpression());
+    const argument = access.getArgumentExpression();
+    if (source && argument && (Node.isStringLiteral(argument) || Node.isNoSubstitutionTemplateLiteral(argument))) {
+      add(argument.getLiteralValue(), source, access);
+    }
+  });
+
+  sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression).forEach(call => {
+    const callee = call.getExpression().getText().replace(/\s/g, '');
+    const [argument] = call.getArguments();
+    const segments = callee.split('.');
+    const isHelper = ENV_HELPER_REGEX.test(segments[segments.length - 1]) || ENV_HELPER_REGEX.test(segments.slice(-2).join('.'));
+    if (!isHelper || !argument) return;
+
+    if ((Node.isStringLiteral(argument) || Node.isNoSubstitutionTemplateLiteral(argument)) && ENV_NAME_REGEX.test(argument.getLiteralValue())) {
+      add(argument.getLiteralValue(), 'helper', call, callee);
+    }
+  });
+
+  return usages.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * 解析 .env 示例文件中声明的变量名
+ */
+export function parseEnvExample(content: string): string[] {
+  return content.split(/\r?\n/)
+    .map(line => line.trim().match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.]*)\s*=/)?.[1])
+    .filter((name): name is string => !!name);
+}
+
+/**
+ * 汇总环境变量清单并与示例文件交叉比对
+ * @param examples 示例文件（相对路径）-> 声明的变量名
+ */
+export function buildEnvInventory(files: FileAnalysis[], examples: Record<string, string[]>): EnvInventory {
+  const variables = new Map<string, EnvVariableInfo>();
+
+  files.forEach(file => {
+    (file.envVars ?? []).forEach(usage => {
+      const variable = variables.get(usage.name) ?? {
+        name: usage.name,
+        files: [],
+        documentedIn: [],
+        builtin: BUILTIN_ENV_VARS.includes(usage.name),
+      };
+      if (!variable.files.includes(file.relativePath)) {
+        variable.files.push(file.relativePath);
+      }
+      variables.set(usage.name, variable);
+    });
+  });
+
+  Object.entries(examples).forEach(([exampleFile, names]) => {
+    names.forEach(name => variables.get(name)?.documentedIn.push(exampleFile));
+  });
+
+  const documented = new Set(Object.values(examples).flat());
+  const sorted = [...variables.values()].sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    variables: sorted,
+    exampleFiles: Object.keys(examples),
+    undocumented: sorted.filter(v => !v.builtin && v.documentedIn.length === 0).map(v => v.name),
+    unused: [...documented].filter(name => !variables.has(name)).sort(),
+  };
+}
+
+function getEnvSource(node: Node | undefined): EnvSource | undefined {
+  return node ? ENV_OBJECTS[node.getText().replace(/\s/g, '')] : undefined;
+}
@@ -2,6 +2,8 @@ import fs from 'fs-extra';
 import path from 'path';
 import chalk from 'chalk';
 import type { TaskContext, FunctionSignature } from './hydrator.js';
+import { formatSignature } from './signature.js';
+import { formatDocSummary, DocInfo } from './doc-comments.js';
 
 /**
  * Markdown 文档生成器
@@ -37,7 +39,8 @@ export class MarkdownGenerator {
       if (analysis.functions.length > 0) {
         md += `**函数**:\n`;
         analysis.functions.forEach((fn: any) => {
-          md += `- \`${fn.name}\` ${fn.isAsync ? '(async)' : ''}\n`;
+          md += `- \`${formatSignature(fn.name ?? 'anonymous', fn)}\`${fn.isAsync ? ' (async)' : ''}${this.formatDocSuffix(fn.doc)}\n`;
+          md += this.formatDocTags(fn.doc, '  ');
         });
         md += '\n';
       }
@@ -45,7 +48,11 @@ export class MarkdownGenerator {
       if (analysis.classes.length > 0) {
         md += `**类**:\n`;
         analysis.classes.forEach((cls: any) => {
-          md += `- \`${cls.name}\` - ${cls.methods.length} 个方法\n`;
+          md += `- \`${cls.name}\` - ${cls.methods.length} 个方法${this.formatDocSuffix(cls.doc)}\n`;
+          cls.methods.forEach((method: any) => {
+            md += `  - \`${formatSignature(method.name, method)}\`${this.formatDocSuffix(method.doc)}\n`;
+            md += this.formatDocTags(method.doc, '    ');
+          });
         });
         md += '\n';
       }
@@ -53,7 +60,23 @@ export class MarkdownGenerator {
       if (analysis.interfaces.length > 0) {
         md += `**接口**:\n`;
         analysis.interfaces.forEach((iface: any) => {
-          md += `- \`${iface.name}\`\n`;
+          md += `- \`${iface.name}\`${this.formatDocSuffix(iface.doc)}\n`;
+        });
+        md += '\n';
+      }
+
+      if (analysis.typeAliases?.length > 0) {
+        md += `**类型别名**:\n`;
+        analysis.typeAliases.forEach((typeAlias: any) => {
+          md += `- \`${typeAlias.name}\`${this.formatDocSuffix(typeAlias.doc)}\n`;
+        });
+        md += '\n';
+      }
+
+      if (analysis.enums?.length > 0) {
+        md += `**枚举**:\n`;
+        analysis.enums.forEach((enumInfo: any) => {
+          md += `- \`${enumInfo.name}\` - ${enumInfo.members.length} 个成员${this.formatDocSuffix(enumInfo.doc)}\n`;
         });
         md += '\n';
       }
@@ -64,6 +87,24 @@ export class MarkdownGenerator {
     return md;
   }
 
+  /**
+   * 文档注释摘要（列表项后缀）
+   */
+  private formatDocSuffix(doc: DocInfo | undefined): string {
+    const summary = formatDocSummary(doc);
+    return summary ? ` - ${summary}` : '';
+  }
+
+  /**
+   * 文档注释中的参数和返回值说明
+   */
+  private formatDocTags(doc: DocInfo | undefined, indent: string): string {
+    return (doc?.tags ?? [])
+      .filter(tag => (tag.tag === 'param' || tag.tag === 'returns' || tag.tag === 'return') && tag.text)
+      .map(tag => `${indent}- ${tag.name ? `\`${tag.name}\`` : '返回值'}: ${tag.text}\n`)
+      .join('');
+  }
+
   /**
    * 生成任务清单文档
    */
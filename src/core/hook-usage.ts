@@ -0,0 +1,106 @@
+import { SourceFile, SyntaxKind, Node, CallExpression } from 'ts-morph';
+import { getImportBindings, ImportBinding } from './import-bindings.js';
+import { getCallerName } from './caller-name.js';
+
+/**
+ * Hook 调用
+ */
+export interface HookCall {
+  name: string;               // 调用的 Hook 名（导入别名还原为导出名）
+  builtin: boolean;           // React 内置 Hook
+  moduleSpecifier?: string;   // 导入路径（本文件定义的 Hook 为空）
+  importName?: string;        // 源模块中的导出名
+  file?: string;              // 定义 Hook 的本地文件（相对路径）
+}
+
+/**
+ * 函数中的 Hook 调用
+ */
+export interface HookUsage {
+  function: string;           // 调用方函数名（类方法为 Class.method）
+  calls: HookCall[];
+}
+
+/**
+ * React 内置 Hook
+ */
+export const REACT_HOOKS = [
+  'use', 'useState', 'useEffect', 'useLayoutEffect', 'useInsertionEffect', 'useContext', 'useReducer',
+  'useCallback', 'useMemo', 'useRef', 'useImperativeHandle', 'useDebugValue', 'useDeferredValue',
+  'useTransition', 'useId', 'useSyncExternalStore', 'useOptimistic', 'useActionState', 'useFormStatus',
+];
+
+const REACT_MODULES = ['react', 'react-dom', 'preact/hooks', 'preact/compat'];
+
+const HOOK_NAME_REGEX = /^use([A-Z0-9].*)?$/;
+
+/**
+ * 提取文件中每个函数调用的 Hook
+ * resolveFile 将导入的 Hook 解析为定义文件（相对路径），无法解析（第三方模块）时返回 undefined
+ */
+export function extractHookUsage(
+  sourceFile: SourceFile,
+  relativePath: string,
+  resolveFile: (moduleSpecifier: string, importName: string) => string | undefined
+): HookUsage[] {
+  const bindings = getImportBindings(sourceFile);
+  const usage = new Map<string, HookCall[]>();
+
+  sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression).forEach(call => {
+    const hook = readHookCall(call, sourceFile, bindings);
+    const caller = hook && getCallerName(call);
+    if (!hook || !caller) return;
+
+    if (hook.moduleSpecifier && hook.importName) {
+      hook.file = resolveFile(hook.moduleSpecifier, hook.importName);
+    } else if (!hook.moduleSpecifier && !hook.builtin) {
+      hook.file = relativePath;
+    }
+
+    const calls = usage.get(caller) ?? [];
+    if (!calls.some(existing => existing.name === hook.name && existing.file === hook.file)) {
+      calls.push(hook);
+    }
+    usage.set(caller, calls);
+  });
+
+  return [...usage.entries()].map(([fn, calls]) => ({ function: fn, calls }));
+}
+
+/**
+ * 识别 useX() / React.useX() / Namespace.useX() 调用
+ */
+function readHookCall(call: CallExpression, sourceFile: SourceFile, bindings: Map<string, ImportBinding>): HookCall | undefined {
+  const expression = call.getExpression();
+  if (!Node.isIdentifier(expression) && !Node.isPropertyAccessExpression(expression)) {
+    return undefined;
+  }
+
+  const [root, member, ...rest] = expression.getText().split('.');
+  if (rest.length > 0 || !HOOK_NAME_REGEX.test(member ?? root)) {
+    return undefined;
+  }
+
+  const binding = bindings.get(root);
+  if (binding) {
+    // 默认导入使用本地名称；React.useState() 这类成员调用取成员名
+    const name = member ?? (binding.importName === 'default' ? root : binding.importName!);
+    return {
+      name,
+      builtin: REACT_MODULES.includes(binding.moduleSpecifier) && REACT_HOOKS.includes(name),
+      moduleSpecifier: binding.moduleSpecifier,
+      importName: member ? (binding.namespace ? member : undefined) : binding.importName,
+    };
+  }
+
+  if (member) {
+    // 未导入的 React 全局命名空间
+    return root === 'React' && REACT_HOOKS.includes(member) ? { name: member, builtin: true } : undefined;
+  }
+
+  // 本文件定义的 Hook；未定义也未导入时按内置 Hook 名判断（如自动导入）
+  if (sourceFile.getFunction(root) || sourceFile.getVariableDeclaration(root)) {
+    return { name: root, builtin: false };
+  }
+  return REACT_HOOKS.includes(root) ? { name: root, builtin: true } : undefined;
+}
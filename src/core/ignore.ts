@@ -0,0 +1,128 @@
+import ignore, { Ignore } from 'ignore';
+import { globby } from 'globby';
+import path from 'path';
+import fs from 'fs';
+
+/**
+ * 忽略规则文件名
+ */
+export const IGNORE_FILE_NAME = '.ai-pilot-ignore';
+
+/**
+ * 内置规则中排除测试文件的部分（unused 会单独解析这些文件）
+ */
+export const TEST_FILE_RULES = ['*.spec.*', '*.test.*'];
+
+/**
+ * 内置忽略规则
+ * 与 .ai-pilot-ignore 使用同一套 gitignore 语义，可通过 `!` 规则重新包含
+ */
+export const DEFAULT_IGNORE_RULES = [
+  'node_modules/',
+  'dist/',
+  'build/',
+  '.next/',
+  '.nuxt/',
+  'out/',
+  'coverage/',
+  '.git/',
+  '*.d.ts',
+  ...TEST_FILE_RULES,
+  '*.min.js',
+];
+
+/**
+ * 遍历时直接跳过的目录（体积大且不可能包含源码，不参与规则计算）
+ */
+export const PRUNED_GLOBS = ['**/node_modules/**', '**/.git/**'];
+
+/**
+ * 单个忽略规则层（对应一个目录下的忽略文件）
+ */
+interface IgnoreLayer {
+  baseDir: string;
+  rules: Ignore;
+}
+
+/**
+ * 忽略规则匹配器
+ * 支持注释、否定规则、目录规则以及子目录中的嵌套忽略文件，
+ * scan / trace / diff 共用同一实例语义，保证各命令的扫描范围一致
+ */
+export class IgnoreMatcher {
+  private constructor(
+    private rootPath: string,
+    private layers: IgnoreLayer[]
+  ) {}
+
+  /**
+   * 加载项目根目录及其子目录中的所有忽略文件
+   * @param extraRules 额外规则（如配置文件中的 exclude），位于内置规则之后、忽略文件之前
+   * @param keepTestFiles 不应用内置规则中的测试文件规则（用户规则仍然生效）
+   */
+  static async load(
+    rootPath: string,
+    extraRules: string[] = [],
+    keepTestFiles = false
+  ): Promise<IgnoreMatcher> {
+    const defaultRules = keepTestFiles
+      ? DEFAULT_IGNORE_RULES.filter(rule => !TEST_FILE_RULES.includes(rule))
+      : DEFAULT_IGNORE_RULES;
+    const layers: IgnoreLayer[] = [
+      { baseDir: rootPath, rules: ignore().add(defaultRules) },
+    ];
+    if (extraRules.length > 0) {
+      layers.push({ baseDir: rootPath, rules: ignore().add(extraRules) });
+    }
+
+    const ignoreFiles = await globby(`**/${IGNORE_FILE_NAME}`, {
+      cwd: rootPath,
+      ignore: PRUNED_GLOBS,
+      absolute: true,
+      dot: true,
+    });
+
+    // 浅层目录优先，深层目录的规则覆盖浅层（与 .gitignore 一致）
+    ignoreFiles
+      .sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b))
+      .forEach(file => {
+        layers.push({
+          baseDir: path.dirname(file),
+          rules: ignore().add(fs.readFileSync(file, 'utf-8')),
+        });
+      });
+
+    return new IgnoreMatcher(rootPath, layers);
+  }
+
+  /**
+   * 判断文件是否被忽略
+   */
+  isIgnored(filePath: string): boolean {
+    const absolutePath = path.resolve(this.rootPath, filePath);
+    let ignored = false;
+
+    for (const layer of this.layers) {
+      const relativePath = path.relative(layer.baseDir, absolutePath);
+      if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+        continue;
+      }
+
+      const result = layer.rules.test(relativePath.split(path.sep).join('/'));
+      if (result.ignored) {
+        ignored = true;
+      } else if (result.unignored) {
+        ignored = false;
+      }
+    }
+
+    return ignored;
+  }
+
+  /**
+   * 过滤掉被忽略的文件
+   */
+  filter(filePaths: string[]): string[] {
+    return filePaths.filter(filePath => !this.isIgnored(filePath));
+  }
+}
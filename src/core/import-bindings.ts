@@ -0,0 +1,38 @@
+import { SourceFile } from 'ts-morph';
+
+/**
+ * 导入绑定的来源
+ */
+export interface ImportBinding {
+  moduleSpecifier: string;
+  importName?: string;        // 源模块中的导出名（默认导入为 default，命名空间导入为空）
+  namespace: boolean;         // import * as X
+}
+
+/**
+ * 文件中的导入绑定：本地名称 -> 导入来源（处理别名 import { a as b }）
+ */
+export function getImportBindings(sourceFile: SourceFile): Map<string, ImportBinding> {
+  const bindings = new Map<string, ImportBinding>();
+
+  sourceFile.getImportDeclarations().forEach(importDecl => {
+    const moduleSpecifier = importDecl.getModuleSpecifierValue();
+
+    const defaultImport = importDecl.getDefaultImport();
+    if (defaultImport) {
+      bindings.set(defaultImport.getText(), { moduleSpecifier, importName: 'default', namespace: false });
+    }
+
+    const namespaceImport = importDecl.getNamespaceImport();
+    if (namespaceImport) {
+      bindings.set(namespaceImport.getText(), { moduleSpecifier, namespace: true });
+    }
+
+    importDecl.getNamedImports().forEach(named => {
+      const localName = named.getAliasNode()?.getText() ?? named.getName();
+      bindings.set(localName, { moduleSpecifier, importName: named.getName(), namespace: false });
+    });
+  });
+
+  return bindings;
+}
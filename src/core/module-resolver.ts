@@ -0,0 +1,436 @@
+import { ts } from 'ts-morph';
+import path from 'path';
+import fs from 'fs';
+import { WorkspaceResolver } from './workspace.js';
+
+/**
+ * 模块解析结果
+ */
+export interface ResolvedModule {
+  isLocal: boolean;           // 是否为本地文件
+  resolvedPath?: string;      // 解析后的绝对路径（找到文件时）
+  packageName?: string;       // 指向工作区内部包时的包名
+}
+
+/**
+ * 路径别名规则
+ */
+interface AliasRule {
+  pattern: string;            // 匹配模式，最多包含一个 *（如 @/*）
+  targets: string[];          // 替换目标（绝对路径，可包含 *）
+  exact: boolean;             // 仅完全匹配（webpack 的 `key$` 写法）
+}
+
+/**
+ * 单个目录生效的别名配置
+ */
+interface AliasConfig {
+  tsPaths: AliasRule[];
+  baseUrl?: string;
+  bundlerAliases: AliasRule[];
+}
+
+/**
+ * 可解析的源文件扩展名
+ */
+export const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.vue'];
+
+const BUNDLER_CONFIG_FILES = [
+  'vite.config.ts',
+  'vite.config.mts',
+  'vite.config.js',
+  'vite.config.mjs',
+  'webpack.config.js',
+  'webpack.config.ts',
+  'webpack.config.cjs',
+  'webpack.config.mjs',
+];
+
+/**
+ * 模块解析器
+ * 统一处理相对路径、tsconfig 的 paths/baseUrl（含 extends 链）、Vite/webpack 别名
+ * 以及工作区内部包，供 scanner、tracer 和 context-finder 共用
+ */
+export class ModuleResolver {
+  private configCache = new Map<string, AliasConfig>();
+  private tsConfigCache = new Map<string, { tsPaths: AliasRule[]; baseUrl?: string }>();
+  private bundlerConfigCache = new Map<string, AliasRule[]>();
+  private workspace?: WorkspaceResolver;
+
+  constructor(private rootPath: string) {}
+
+  /**
+   * 获取工作区解析器（首次使用时加载）
+   */
+  getWorkspace(): WorkspaceResolver {
+    if (!this.workspace) {
+      this.workspace = new WorkspaceResolver(this.rootPath);
+    }
+    return this.workspace;
+  }
+
+  /**
+   * 解析导入路径
+   */
+  resolve(moduleSpecifier: string, fromFile: string): ResolvedModule {
+    const currentDir = path.dirname(fromFile);
+
+    // 相对路径和绝对路径
+    if (moduleSpecifier.startsWith('.') || moduleSpecifier.startsWith('/')) {
+      const resolvedPath = this.resolveFile(path.resolve(currentDir, moduleSpecifier));
+      return { isLocal: true, resolvedPath };
+    }
+
+    const config = this.getAliasConfig(currentDir);
+
+    // tsconfig paths 优先，其次是打包工具别名
+    for (const rules of [config.tsPaths, config.bundlerAliases]) {
+      const resolvedPath = this.resolveAlias(moduleSpecifier, rules);
+      if (resolvedPath) {
+        return { isLocal: true, resolvedPath };
+      }
+    }
+
+    // 工作区内部包（如 @acme/ui -> packages/ui/src/index.ts）
+    const workspaceMatch = this.getWorkspace().matchPackage(moduleSpecifier);
+    if (workspaceMatch) {
+      const resolvedPath = this.getWorkspace().resolveEntry(workspaceMatch.pkg, workspaceMatch.subpath, basePath => this.resolveFile(basePath));
+      if (resolvedPath) {
+        return { isLocal: true, resolvedPath, packageName: workspaceMatch.pkg.name };
+      }
+    }
+
+    // baseUrl 下的非相对导入（如 components/Button）
+    if (config.baseUrl) {
+      const resolvedPath = this.resolveFile(path.join(config.baseUrl, moduleSpecifier));
+      if (resolvedPath) {
+        return { isLocal: true, resolvedPath };
+      }
+    }
+
+    // 没有别名配置命中时，按约定将 @/ 解析到 src/（所属工作区包优先，其次项目根目录）
+    if (moduleSpecifier.startsWith('@/')) {
+      const packageDir = this.getWorkspace().getPackageForFile(fromFile)?.dir;
+      for (const dir of [...new Set([packageDir ?? this.rootPath, this.rootPath])]) {
+        const resolvedPath = this.resolveFile(path.join(dir, 'src', moduleSpecifier.slice(2)));
+        if (resolvedPath) {
+          return { isLocal: true, resolvedPath };
+        }
+      }
+    }
+
+    return { isLocal: false };
+  }
+
+  /**
+   * 按别名规则解析
+   */
+  private resolveAlias(moduleSpecifier: string, rules: AliasRule[]): string | undefined {
+    // 与 TypeScript 一致：前缀最长的规则优先
+    const prefixLength = (rule: AliasRule) => rule.pattern.includes('*') ? rule.pattern.indexOf('*') : rule.pattern.length;
+    const sorted = [...rules].sort((a, b) => prefixLength(b) - prefixLength(a));
+
+    for (const rule of sorted) {
+      const matched = this.matchPattern(rule, moduleSpecifier);
+      if (matched === undefined) continue;
+
+      for (const target of rule.targets) {
+        const candidate = target.includes('*') ? target.replace('*', matched) : target + matched;
+        const resolvedPath = this.resolveFile(candidate);
+        if (resolvedPath) {
+          return resolvedPath;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 匹配别名模式，返回通配部分（未匹配返回 undefined）
+   */
+  private matchPattern(rule: AliasRule, moduleSpecifier: string): string | undefined {
+    const starIndex = rule.pattern.indexOf('*');
+
+    if (starIndex >= 0) {
+      const prefix = rule.pattern.slice(0, starIndex);
+      const suffix = rule.pattern.slice(starIndex + 1);
+      if (moduleSpecifier.length >= prefix.length + suffix.length &&
+          moduleSpecifier.startsWith(prefix) && moduleSpecifier.endsWith(suffix)) {
+        return moduleSpecifier.slice(prefix.length, moduleSpecifier.length - suffix.length);
+      }
+      return undefined;
+    }
+
+    if (moduleSpecifier === rule.pattern) {
+      return '';
+    }
+    // Vite/webpack 别名同时匹配子路径（@ -> @/utils）
+    if (!rule.exact && moduleSpecifier.startsWith(rule.pattern + '/')) {
+      return moduleSpecifier.slice(rule.pattern.length);
+    }
+    return undefined;
+  }
+
+  /**
+   * 尝试补全扩展名和 index 文件，返回存在的文件路径
+   */
+  resolveFile(basePath: string): string | undefined {
+    if (this.isFile(basePath)) {
+      return basePath;
+    }
+
+    // ESM 写法：./foo.js 实际指向 ./foo.ts
+    const ext = path.extname(basePath);
+    if (['.js', '.jsx', '.mjs', '.cjs'].includes(ext)) {
+      const withoutExt = basePath.slice(0, -ext.length);
+      for (const tsExt of ['.ts', '.tsx']) {
+        if (this.isFile(withoutExt + tsExt)) {
+          return withoutExt + tsExt;
+        }
+      }
+    }
+
+    for (const extension of SOURCE_EXTENSIONS) {
+      if (this.isFile(basePath + extension)) {
+        return basePath + extension;
+      }
+    }
+
+    for (const extension of SOURCE_EXTENSIONS) {
+      const indexPath = path.join(basePath, `index${extension}`);
+      if (this.isFile(indexPath)) {
+        return indexPath;
+      }
+    }
+
+    return undefined;
+  }
+
+  private isFile(filePath: string): boolean {
+    try {
+      return fs.statSync(filePath).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 获取目录生效的别名配置（就近查找 tsconfig 和打包工具配置）
+   */
+  private getAliasConfig(dir: string): AliasConfig {
+    const cached = this.configCache.get(dir);
+    if (cached) return cached;
+
+    const tsConfigPath = this.findUp(dir, ['tsconfig.json', 'jsconfig.json']);
+    const bundlerConfigPath = this.findUp(dir, BUNDLER_CONFIG_FILES);
+
+    const config: AliasConfig = {
+      tsPaths: [],
+      bundlerAliases: [],
+    };
+
+    if (tsConfigPath) {
+      if (!this.tsConfigCache.has(tsConfigPath)) {
+        this.tsConfigCache.set(tsConfigPath, this.readTsConfigPaths(tsConfigPath));
+      }
+      const { tsPaths, baseUrl } = this.tsConfigCache.get(tsConfigPath)!;
+      config.tsPaths = tsPaths;
+      config.baseUrl = baseUrl;
+    }
+
+    if (bundlerConfigPath) {
+      if (!this.bundlerConfigCache.has(bundlerConfigPath)) {
+        this.bundlerConfigCache.set(bundlerConfigPath, this.readBundlerAliases(bundlerConfigPath));
+      }
+      config.bundlerAliases = this.bundlerConfigCache.get(bundlerConfigPath)!;
+    }
+
+    this.configCache.set(dir, config);
+    return config;
+  }
+
+  /**
+   * 从当前目录向上查找配置文件（不超出项目根目录）
+   */
+  private findUp(startDir: string, fileNames: string[]): string | undefined {
+    let dir = startDir;
+
+    while (true) {
+      for (const fileName of fileNames) {
+        const candidate = path.join(dir, fileName);
+        if (fs.existsSync(candidate)) {
+          return candidate;
+        }
+      }
+
+      const parent = path.dirname(dir);
+      if (dir === this.rootPath || parent === dir || !dir.startsWith(this.rootPath)) {
+        return undefined;
+      }
+      dir = parent;
+    }
+  }
+
+  /**
+   * 读取 tsconfig 中的 paths/baseUrl（由 TypeScript 处理 extends 链）
+   */
+  private readTsConfigPaths(tsConfigPath: string): { tsPaths: AliasRule[]; baseUrl?: string } {
+    try {
+      const { config, error } = ts.readConfigFile(tsConfigPath, ts.sys.readFile);
+      if (error || !config) {
+        return { tsPaths: [] };
+      }
+
+      const configDir = path.dirname(tsConfigPath);
+      const { options } = ts.parseJsonConfigFileContent(config, ts.sys, configDir, undefined, tsConfigPath);
+      const pathsBase = options.baseUrl || (options.pathsBasePath as string | undefined) || configDir;
+
+      const tsPaths = Object.entries(options.paths || {}).map(([pattern, targets]) => ({
+        pattern,
+        targets: targets.map(target => path.resolve(pathsBase, target)),
+        exact: true,
+      }));
+
+      return { tsPaths, baseUrl: options.baseUrl };
+    } catch (error) {
+      return { tsPaths: [] };
+    }
+  }
+
+  /**
+   * 静态读取 Vite/webpack 配置中的 resolve.alias
+   */
+  private readBundlerAliases(configPath: string): AliasRule[] {
+    const aliases: AliasRule[] = [];
+    const configDir = path.dirname(configPath);
+
+    try {
+      const content = fs.readFileSync(configPath, 'utf-8');
+      const sourceFile = ts.createSourceFile(configPath, content, ts.ScriptTarget.Latest, true);
+
+      const visit = (node: ts.Node) => {
+        if (ts.isPropertyAssignment(node) && this.getPropertyName(node.name) === 'alias') {
+          aliases.push(...this.parseAliasValue(node.initializer, configDir));
+        }
+        ts.forEachChild(node, visit);
+      };
+      visit(sourceFile);
+    } catch (error) {
+      // 忽略无法解析的配置文件
+    }
+
+    return aliases;
+  }
+
+  /**
+   * 解析 alias 的值（对象写法或 Vite 的数组写法）
+   */
+  private parseAliasValue(node: ts.Expression, configDir: string): AliasRule[] {
+    const rules: AliasRule[] = [];
+
+    const addRule = (find: string, replacement: string) => {
+      const exact = find.endsWith('$');
+      rules.push({
+        pattern: exact ? find.slice(0, -1) : find,
+        targets: [this.normalizeAliasTarget(replacement, configDir)],
+        exact,
+      });
+    };
+
+    if (ts.isObjectLiteralExpression(node)) {
+      node.properties.forEach(prop => {
+        if (!ts.isPropertyAssignment(prop)) return;
+        const find = this.getPropertyName(prop.name);
+        const replacement = this.evaluatePath(prop.initializer, configDir);
+        if (find && replacement) {
+          addRule(find, replacement);
+        }
+      });
+    } else if (ts.isArrayLiteralExpression(node)) {
+      node.elements.forEach(element => {
+        if (!ts.isObjectLiteralExpression(element)) return;
+        let find: string | undefined;
+        let replacement: string | undefined;
+        element.properties.forEach(prop => {
+          if (!ts.isPropertyAssignment(prop)) return;
+          const name = this.getPropertyName(prop.name);
+          // find 为正则时无法静态处理，跳过
+          if (name === 'find' && ts.isStringLiteralLike(prop.initializer)) {
+            find = prop.initializer.text;
+          } else if (name === 'replacement') {
+            replacement = this.evaluatePath(prop.initializer, configDir);
+          }
+        });
+        if (find && replacement) {
+          addRule(find, replacement);
+        }
+      });
+    }
+
+    return rules;
+  }
+
+  /**
+   * 别名目标转为绝对路径（Vite 中 /src 表示项目根目录下的 src）
+   */
+  private normalizeAliasTarget(target: string, configDir: string): string {
+    if (path.isAbsolute(target) && (target.startsWith(this.rootPath) || fs.existsSync(target))) {
+      return target;
+    }
+    return path.join(configDir, target);
+  }
+
+  /**
+   * 静态求值路径表达式：字符串、模板字符串、path.resolve/join、__dirname、fileURLToPath(new URL())
+   */
+  private evaluatePath(node: ts.Expression, configDir: string): string | undefined {
+    if (ts.isStringLiteralLike(node)) {
+      return node.text;
+    }
+
+    if (ts.isIdentifier(node) && node.text === '__dirname') {
+      return configDir;
+    }
+
+    if (ts.isTemplateExpression(node)) {
+      let result = node.head.text;
+      for (const span of node.templateSpans) {
+        const value = this.evaluatePath(span.expression, configDir);
+        if (value === undefined) return undefined;
+        result += value + span.literal.text;
+      }
+      return result;
+    }
+
+    if (ts.isCallExpression(node)) {
+      const callee = node.expression.getText();
+      const args = node.arguments.map(arg => this.evaluatePath(arg, configDir));
+
+      if (callee === 'process.cwd') {
+        return configDir;
+      }
+      if (args.some(arg => arg === undefined)) {
+        return undefined;
+      }
+      if (['path.resolve', 'resolve', 'path.join', 'join', 'fileURLToPath'].includes(callee)) {
+        return callee.endsWith('join') ? path.join(...(args as string[])) : path.resolve(configDir, ...(args as string[]));
+      }
+    }
+
+    // new URL('./src', import.meta.url)
+    if (ts.isNewExpression(node) && node.expression.getText() === 'URL' && node.arguments?.length) {
+      const relative = this.evaluatePath(node.arguments[0], configDir);
+      return relative === undefined ? undefined : path.resolve(configDir, relative);
+    }
+
+    return undefined;
+  }
+
+  private getPropertyName(name: ts.PropertyName): string | undefined {
+    if (ts.isIdentifier(name) || ts.isStringLiteralLike(name) || ts.isNumericLiteral(name)) {
+      return name.text;
+    }
+    return undefined;
+  }
+}
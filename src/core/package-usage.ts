@@ -0,0 +1,218 @@
+import { builtinModules } from 'module';
+import path from 'path';
+import fs from 'fs';
+import { FileAnalysis, FileRole, ProjectMap } from './scanner.js';
+
+/**
+ * package.json 中的依赖字段
+ */
+export type DependencyField = 'dependencies' | 'devDependencies' | 'peerDependencies' | 'optionalDependencies';
+
+/**
+ * 第三方包的使用情况
+ */
+export interface PackageUsageInfo {
+  name: string;
+  files: string[];            // 导入该包的文件（相对路径）
+  imports: string[];          // 使用到的导出名（default 为默认导入）
+  declaredIn?: DependencyField;
+  declaredVersion?: string;   // package.json 中声明的版本范围
+  installedVersion?: string;  // node_modules 中安装的版本
+  license?: string;
+  undeclared: boolean;        // 导入了但未在 package.json 中声明
+  devInProduction: string[];  // 仅声明为 devDependency 却在生产代码中（非类型）导入的文件
+}
+
+/**
+ * 已声明但未被导入的依赖
+ */
+export interface UnusedDependency {
+  name: string;
+  manifest: string;           // 所在 package.json（相对路径）
+  version: string;
+}
+
+/**
+ * 第三方包使用报告
+ */
+export interface PackageUsageReport {
+  packages: PackageUsageInfo[];
+  unused: UnusedDependency[];
+}
+
+/**
+ * 参与比对的依赖字段（按优先级）
+ */
+const DEPENDENCY_FIELDS: DependencyField[] = ['dependencies', 'peerDependencies', 'optionalDependencies', 'devDependencies'];
+
+/**
+ * 合法的 npm 包名（排除 @/ 一类的路径别名）
+ */
+const PACKAGE_NAME_REGEX = /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+
+type Manifest = Partial<Record<DependencyField, Record<string, string>>>;
+
+/**
+ * 第三方包使用分析
+ * 根据项目地图中的非本地导入统计每个包的使用情况，并与 package.json（工作区包优先，其次根目录）比对
+ */
+export class PackageUsageAnalyzer {
+  private manifests = new Map<string, Manifest>();
+
+  constructor(private projectMap: ProjectMap) {}
+
+  analyze(): PackageUsageReport {
+    const rootPath = this.projectMap.rootPath;
+    const usages = new Map<string, PackageUsageInfo>();
+    const usedByManifest = new Map<string, Set<string>>();
+
+    this.projectMap.files.forEach(file => {
+      const manifestDirs = this.getManifestDirs(file);
+
+      file.imports.forEach(imp => {
+        const name = getPackageName(imp.moduleSpecifier);
+        if (imp.isLocal || imp.workspacePackage || !name) return;
+
+        const usage = usages.get(name) ?? this.createUsage(name, manifestDirs);
+        usages.set(name, usage);
+
+        if (!usage.files.includes(file.relativePath)) {
+          usage.files.push(file.relativePath);
+        }
+        [...imp.namedImports, ...(imp.defaultImport ? ['default'] : [])].forEach(importName => {
+          if (!usage.imports.includes(importName)) usage.imports.push(importName);
+        });
+
+        const declaration = this.findDeclaration(name, manifestDirs);
+        if (!declaration) {
+          usage.undeclared = true;
+        }
+
+        // devDependency 在生产代码中的运行时导入（类型导入在编译后会被移除）
+        if (declaration?.field === 'devDependencies' && !imp.isTypeOnly && isProductionFile(file) &&
+            !usage.devInProduction.includes(file.relativePath)) {
+          usage.devInProduction.push(file.relativePath);
+        }
+
+        // 记录使用到的声明（同名依赖在最近的 package.json 中计为已使用）
+        if (declaration) {
+          const used = usedByManifest.get(declaration.dir) ?? new Set<string>();
+          used.add(name);
+          usedByManifest.set(declaration.dir, used);
+        }
+      });
+    });
+
+    // 未被导入的 dependencies（devDependencies 多为构建工具，不计入）
+    const unused: UnusedDependency[] = [];
+    this.getAllManifestDirs().forEach(dir => {
+      const dependencies = this.readManifest(dir).dependencies ?? {};
+      Object.entries(dependencies).forEach(([name, version]) => {
+        if (name.startsWith('@types/') || usedByManifest.get(dir)?.has(name)) return;
+        unused.push({ name, manifest: path.relative(rootPath, path.join(dir, 'package.json')), version });
+      });
+    });
+
+    return {
+      packages: [...usages.values()].sort((a, b) => b.files.length - a.files.length || a.name.localeCompare(b.name)),
+      unused,
+    };
+  }
+
+  private createUsage(name: string, manifestDirs: string[]): PackageUsageInfo {
+    const declaration = this.findDeclaration(name, manifestDirs);
+    const installed = this.readInstalledManifest(name, manifestDirs[0]);
+    return {
+      name,
+      files: [],
+      imports: [],
+      declaredIn: declaration?.field,
+      declaredVersion: declaration?.version,
+      installedVersion: installed?.version,
+      license: readLicense(installed?.license),
+      undeclared: false,
+      devInProduction: [],
+    };
+  }
+
+  /**
+   * 文件适用的 package.json 目录：所属工作区包、项目根目录
+   */
+  private getManifestDirs(file: FileAnalysis): string[] {
+    const rootPath = this.projectMap.rootPath;
+    const pkg = (this.projectMap.workspacePackages ?? []).find(p => p.name === file.packageName);
+    const dirs = pkg ? [path.join(rootPath, pkg.path), rootPath] : [rootPath];
+    return [...new Set(dirs)];
+  }
+
+  private getAllManifestDirs(): string[] {
+    const rootPath = this.projectMap.rootPath;
+    const dirs = [rootPath, ...(this.projectMap.workspacePackages ?? []).map(p => path.join(rootPath, p.path))];
+    return [...new Set(dirs)].filter(dir => fs.existsSync(path.join(dir, 'package.json')));
+  }
+
+  private findDeclaration(name: string, manifestDirs: string[]): { dir: string; field: DependencyField; version: string } | undefined {
+    for (const dir of manifestDirs) {
+      const manifest = this.readManifest(dir);
+      const field = DEPENDENCY_FIELDS.find(f => manifest[f]?.[name] !== undefined);
+      if (field) {
+        return { dir, field, version: manifest[field]![name] };
+      }
+    }
+    return undefined;
+  }
+
+  private readManifest(dir: string): Manifest {
+    if (!this.manifests.has(dir)) {
+      this.manifests.set(dir, readJson(path.join(dir, 'package.json')) ?? {});
+    }
+    return this.manifests.get(dir)!;
+  }
+
+  /**
+   * 按 Node 解析规则从包目录向上查找 node_modules 中安装的包
+   */
+  private readInstalledManifest(name: string, fromDir: string): { version?: string; license?: unknown } | undefined {
+    let dir = fromDir;
+    while (true) {
+      const manifest = readJson(path.join(dir, 'node_modules', name, 'package.json'));
+      if (manifest) return manifest;
+      if (dir === this.projectMap.rootPath || path.dirname(dir) === dir) return undefined;
+      dir = path.dirname(dir);
+    }
+  }
+}
+
+/**
+ * 导入路径对应的包名（lodash/fp -> lodash，@scope/pkg/sub -> @scope/pkg）；Node 内置模块返回 undefined
+ */
+export function getPackageName(moduleSpecifier: string): string | undefined {
+  if (moduleSpecifier.startsWith('node:') || builtinModules.includes(moduleSpecifier.split('/')[0])) {
+    return undefined;
+  }
+
+  const parts = moduleSpecifier.split('/');
+  const name = moduleSpecifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+  return PACKAGE_NAME_REGEX.test(name) ? name : undefined;
+}
+
+/**
+ * 是否为生产代码（排除测试、配置、Storybook 文件）
+ */
+function isProductionFile(file: FileAnalysis): boolean {
+  return file.role !== FileRole.TEST && file.role !== FileRole.CONFIG && !/\.stories\.[^.]+$/.test(file.relativePath);
+}
+
+function readLicense(license: unknown): string | undefined {
+  if (typeof license === 'string') return license;
+  if (license && typeof license === 'object' && 'type' in license) return String(license.type);
+  return undefined;
+}
+
+function readJson(filePath: string): any {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,117 @@
+import { Worker } from 'worker_threads';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { FileAnalysis, ProjectScannerOptions } from './scanner.js';
+
+/**
+ * 启用并行分析的最小文件数（线程启动需要加载 ts-morph，文件少时串行更快）
+ */
+export const PARALLEL_THRESHOLD = 200;
+
+/**
+ * 每次派发给工作线程的文件数
+ */
+const BATCH_SIZE = 50;
+
+/**
+ * 主线程发送给工作线程的消息
+ */
+export interface WorkerRequest {
+  files: string[];
+}
+
+/**
+ * 工作线程返回的消息
+ */
+export type WorkerResponse =
+  | { type: 'result'; analyses: FileAnalysis[] }
+  | { type: 'error'; message: string };
+
+/**
+ * 使用 worker_threads 并行分析文件
+ * 文件按批次动态派发给空闲线程，结果按输入顺序合并，保证输出稳定
+ */
+export async function analyzeInParallel(
+  rootPath: string,
+  filePaths: string[],
+  concurrency: number,
+  options: ProjectScannerOptions = {}
+): Promise<FileAnalysis[]> {
+  // 开发模式（tsx）下为 .ts，构建后为 .js
+  const extension = path.extname(fileURLToPath(import.meta.url));
+  const workerUrl = new URL(`./scan-worker${extension}`, import.meta.url);
+
+  const batches: string[][] = [];
+  for (let i = 0; i < filePaths.length; i += BATCH_SIZE) {
+    batches.push(filePaths.slice(i, i + BATCH_SIZE));
+  }
+
+  const results = new Map<string, FileAnalysis>();
+  const workerCount = Math.min(concurrency, batches.length);
+  let nextBatch = 0;
+  const workers: Worker[] = [];
+
+  const runWorker = () => new Promise<void>((resolve, reject) => {
+    const worker = createWorker(workerUrl, extension, { rootPath, options });
+    workers.push(worker);
+    let finished = false;
+
+    const dispatch = () => {
+      if (nextBatch >= batches.length) {
+        finished = true;
+        worker.terminate().then(() => resolve(), reject);
+        return;
+      }
+      const request: WorkerRequest = { files: batches[nextBatch++] };
+      worker.postMessage(request);
+    };
+
+    worker.on('message', (response: WorkerResponse) => {
+      if (response.type === 'error') {
+        reject(new Error(`工作线程分析失败: ${response.message}`));
+        return;
+      }
+      response.analyses.forEach(analysis => results.set(analysis.filePath, analysis));
+      dispatch();
+    });
+    worker.on('error', reject);
+    // 未触发 error 事件的退出（如依赖中调用 process.exit）同样视为失败，避免 scan 挂起
+    worker.on('exit', code => {
+      if (!finished) {
+        reject(new Error(`工作线程意外退出 (exit code ${code})`));
+      }
+    });
+
+    dispatch();
+  });
+
+  try {
+    await Promise.all(Array.from({ length: workerCount }, runWorker));
+  } catch (error) {
+    // 任一线程失败时终止其余线程
+    await Promise.all(workers.map(worker => worker.terminate()));
+    throw error;
+  }
+
+  return filePaths.map(filePath => {
+    const analysis = results.get(filePath);
+    if (!analysis) {
+      throw new Error(`缺少文件分析结果: ${filePath}`);
+    }
+    return analysis;
+  });
+}
+
+/**
+ * 创建工作线程
+ * tsx 的加载钩子不会传递给工作线程，开发模式下先在线程内注册 tsx 再加载入口
+ */
+function createWorker(workerUrl: URL, extension: string, workerData: unknown): Worker {
+  if (extension !== '.ts') {
+    return new Worker(workerUrl, { workerData });
+  }
+
+  const tsxApi = import.meta.resolve('tsx/esm/api');
+  const bootstrap = `import(${JSON.stringify(tsxApi)}).then(({ register }) => { register(); return import(${JSON.stringify(workerUrl.href)}); });`;
+  return new Worker(bootstrap, { eval: true, workerData });
+}
@@ -1,5 +1,10 @@
 import path from 'path';
-import { FileAnalysis, FileRole, ProjectMap } from './scanner.js';
+import { EnumInfo, FileAnalysis, FileRole, InterfaceInfo, ProjectMap, TypeAliasInfo } from './scanner.js';
+import { DOC_SECTIONS, DocSection } from './config.js';
+import { formatSignature } from './signature.js';
+import type { PropInfo } from './component-props.js';
+import type { RouteSource } from './routes.js';
+import { CycleDetector } from './cycles.js';
 
 /**
  * 产品级文档生成器
@@ -8,35 +13,24 @@ import { FileAnalysis, FileRole, ProjectMap } from './scanner.js';
 export class ProductDocGenerator {
   /**
    * 生成产品级项目文档
+   * @param sections 输出的章节及顺序（默认全部）
    */
-  generateProductDoc(projectMap: ProjectMap): string {
-    const doc = [];
-
-    // 1. 项目概览
-    doc.push(this.generateOverview(projectMap));
-    
-    // 2. 技术栈识别
-    doc.push(this.generateTechStack(projectMap));
-    
-    // 3. 架构分析
-    doc.push(this.generateArchitecture(projectMap));
-    
-    // 4. 功能模块
-    doc.push(this.generateModules(projectMap));
-    
-    // 5. 核心组件
-    doc.push(this.generateCoreComponents(projectMap));
-    
-    // 6. API 接口
-    doc.push(this.generateAPIs(projectMap));
-    
-    // 7. 数据模型
-    doc.push(this.generateDataModels(projectMap));
-    
-    // 8. 关键依赖
-    doc.push(this.generateDependencies(projectMap));
+  generateProductDoc(projectMap: ProjectMap, sections: readonly DocSection[] = DOC_SECTIONS): string {
+    const generators: Record<DocSection, (projectMap: ProjectMap) => string> = {
+      overview: map => this.generateOverview(map),               // 项目概览
+      techStack: map => this.generateTechStack(map),             // 技术栈识别
+      architecture: map => this.generateArchitecture(map),       // 架构分析
+      modules: map => this.generateModules(map),                 // 功能模块
+      components: map => this.generateCoreComponents(map),       // 核心组件
+      hooks: map => this.generateHooks(map),                     // Hook 使用
+      pages: map => this.generatePagesAndState(map),             // 页面与状态
+      apis: map => this.generateAPIs(map),                       // API 接口
+      env: map => this.generateEnv(map),                         // 环境变量
+      dataModels: map => this.generateDataModels(map),           // 数据模型
+      dependencies: map => this.generateDependencies(map),       // 关键依赖
+    };
 
-    return doc.join('\n\n---\n\n');
+    return sections.map(section => generators[section](projectMap)).join('\n\n---\n\n');
   }
 
   /**
@@ -64,11 +58,18 @@ ${this.generateQuickSummary(projectMap, stats)}
 |------|------|
 | 📄 总文件数 | ${stats.totalFiles} |
 | 🧩 组件 (Components) | ${projectMap.filesByRole.Component} |
+| 📄 页面 (Pages) | ${projectMap.filesByRole.Page} |
+| 🧭 路由 (Routes) | ${projectMap.filesByRole.Route} |
+| 🗄️ 状态仓库 (Stores) | ${projectMap.filesByRole.Store} |
+| 🔌 上下文 (Contexts) | ${projectMap.filesByRole.Context} |
 | 🪝 Hooks | ${projectMap.filesByRole.Hook} |
 | 🌐 服务 (Services) | ${projectMap.filesByRole.Service} |
 | 🔧 工具函数 (Utils) | ${projectMap.filesByRole.Utility} |
 | 📘 类型定义 (Types) | ${projectMap.filesByRole.Type} |
 | ⚙️ 配置文件 (Config) | ${projectMap.filesByRole.Config} |
+| 🧪 测试 (Tests) | ${projectMap.filesByRole.Test} |
+| 🎨 样式 (Styles) | ${projectMap.filesByRole.Style} |
+${this.getCustomRoles(projectMap).map(role => `| 🏷️ ${role} | ${projectMap.filesByRole[role]} |`).join('\n')}
 
 ### 目录结构
 
@@ -181,11 +182,122 @@ ${comps.map(c => {
 
 **路径**: \`${c.relativePath}\`  
 **导出**: ${c.exports.join(', ') || '默认导出'}  
-**Props**: ${this.extractProps(c)}  
 **依赖**: ${c.dependencies.length} 个本地模块
+
+**Props**: ${this.extractProps(c)}
 `;
 }).join('\n')}
 `).join('\n')}
+`;
+  }
+
+  /**
+   * 生成 Hook 使用关系（自定义 Hook 的定义与使用方、各函数使用的内置 Hook）
+   */
+  private generateHooks(projectMap: ProjectMap): string {
+    const usages = projectMap.files.flatMap(file =>
+      (file.hooks ?? []).map(usage => ({ file: file.relativePath, ...usage }))
+    );
+
+    if (usages.length === 0) {
+      return '## 🪝 Hook 使用\n\n暂未识别到 Hook 调用';
+    }
+
+    // 自定义 Hook：定义文件 + 名称 → 使用方
+    const customHooks = new Map<string, { name: string; file: string; consumers: string[] }>();
+    usages.forEach(usage => {
+      usage.calls.filter(call => !call.builtin && call.file).forEach(call => {
+        const key = `${call.file}#${call.name}`;
+        const hook = customHooks.get(key) ?? { name: call.name, file: call.file!, consumers: [] };
+        hook.consumers.push(`\`${usage.function}\` (${usage.file})`);
+        customHooks.set(key, hook);
+      });
+    });
+
+    const builtinUsages = usages
+      .map(usage => ({ ...usage, builtins: usage.calls.filter(call => call.builtin).map(call => call.name) }))
+      .filter(usage => usage.builtins.length > 0);
+
+    const customContent = [...customHooks.values()]
+      .sort((a, b) => b.consumers.length - a.consumers.length)
+      .map(hook => `#### ${hook.name}
+
+**路径**: \`${hook.file}\`  
+**使用方** (${hook.consumers.length}): ${hook.consumers.join(', ')}`).join('\n\n');
+
+    const builtinContent = builtinUsages.length > 0
+      ? `| 函数 | 文件 | 内置 Hook |
+|------|------|-----------|
+${builtinUsages.map(usage => `| \`${usage.function}\` | \`${usage.file}\` | ${usage.builtins.map(name => `\`${name}\``).join(', ')} |`).join('\n')}`
+      : '暂未识别到内置 Hook 调用';
+
+    return `## 🪝 Hook 使用
+
+### 自定义 Hook (${customHooks.size})
+
+${customContent || '暂未识别到项目内的自定义 Hook'}
+
+### 内置 Hook
+
+${builtinContent}
+`;
+  }
+
+  /**
+   * 生成页面、路由与状态管理
+   */
+  private generatePagesAndState(projectMap: ProjectMap): string {
+    const sections: Array<{ title: string; role: FileRole }> = [
+      { title: '📄 页面', role: FileRole.PAGE },
+      { title: '🧭 路由', role: FileRole.ROUTE },
+      { title: '🗄️ 状态仓库', role: FileRole.STORE },
+      { title: '🔌 上下文', role: FileRole.CONTEXT },
+    ];
+
+    const content = sections
+      .map(({ title, role }) => ({ title, files: projectMap.files.filter(f => f.role === role) }))
+      .filter(section => section.files.length > 0)
+      .map(({ title, files }) => `### ${title} (${files.length})
+
+${files.map(f => `- \`${f.relativePath}\`${f.exports.length > 0 ? ` - 导出: ${f.exports.slice(0, 5).join(', ')}` : ''}`).join('\n')}
+`).join('\n');
+
+    const routeTable = this.generateRouteTable(projectMap);
+
+    return `## 🗂 页面与状态
+
+${routeTable}${content || (routeTable ? '' : '暂未识别到页面、路由或状态管理文件')}
+`;
+  }
+
+  /**
+   * 生成路由表（路径 → 页面组件 → 数据加载）
+   */
+  private generateRouteTable(projectMap: ProjectMap): string {
+    const routes = projectMap.routes ?? [];
+    if (routes.length === 0) {
+      return '';
+    }
+
+    const sourceLabels: Record<RouteSource, string> = {
+      'react-router': 'react-router',
+      'next-pages': 'Next.js pages',
+      'next-app': 'Next.js app',
+    };
+
+    return `### 🛣 路由表 (${routes.length})
+
+| 路径 | 页面组件 | 数据加载 | 布局 | 来源 |
+|------|----------|----------|------|------|
+${routes.map(route => {
+  const component = route.component
+    ? `\`${route.component}\`${route.componentFile ? ` (${route.componentFile})` : ''}`
+    : '-';
+  const loaders = route.loaders.map(loader => `\`${loader}\``).join(', ') || '-';
+  const layouts = route.layouts.map(layout => `\`${layout}\``).join(' → ') || '-';
+  return `| \`${route.path}\` | ${component} | ${loaders} | ${layouts} | ${sourceLabels[route.source]}${route.source === 'react-router' ? ` (${route.file})` : ''} |`;
+}).join('\n')}
+
 `;
   }
 
@@ -194,29 +306,98 @@ ${comps.map(c => {
    */
   private generateAPIs(projectMap: ProjectMap): string {
     const services = projectMap.files.filter(f => f.role === FileRole.SERVICE);
+    const endpointCatalog = this.generateEndpointCatalog(projectMap);
     
     if (services.length === 0) {
-      return '## 🌐 API 服务\n\n暂未识别到 API 服务文件';
+      return `## 🌐 API 服务\n\n${endpointCatalog || '暂未识别到 API 服务文件'}`;
     }
 
     return `## 🌐 API 服务
 
-项目共有 **${services.length}** 个服务模块
+${endpointCatalog}项目共有 **${services.length}** 个服务模块
 
 ${services.map(svc => `### ${path.basename(svc.filePath, path.extname(svc.filePath))}
 
 **路径**: \`${svc.relativePath}\`
 
 **导出方法**:
-${svc.functions.filter(f => f.isExported).map(f => 
-  `- \`${f.name}\`${f.isAsync ? ' (异步)' : ''} - 参数: (${f.parameters.join(', ')})`
-).join('\n') || '- 无'}
+${[
+  ...svc.functions.filter(f => f.isExported).map(f =>
+    `- \`${formatSignature(f.name ?? 'anonymous', f)}\`${f.isAsync ? ' (异步)' : ''}`
+  ),
+  ...svc.classes.filter(c => c.isExported).flatMap(c => c.methods.filter(m => m.scope === 'public').map(m =>
+    `- \`${c.name}.${formatSignature(m.name, m)}\`${m.isAsync ? ' (异步)' : ''}`
+  )),
+].join('\n') || '- 无'}
 
 **依赖**: ${svc.dependencies.slice(0, 3).join(', ') || '无'}
 `).join('\n\n')}
 `;
   }
 
+  /**
+   * 生成接口请求目录（按 方法 + URL 聚合全部文件中的 HTTP 请求）
+   */
+  private generateEndpointCatalog(projectMap: ProjectMap): string {
+    const endpoints = new Map<string, { method: string; url: string; callers: string[] }>();
+    projectMap.files.forEach(file => {
+      (file.apiCalls ?? []).forEach(call => {
+        const key = `${call.method} ${call.url}`;
+        const endpoint = endpoints.get(key) ?? { method: call.method, url: call.url, callers: [] };
+        endpoint.callers.push(`${call.function ? `\`${call.function}\` ` : ''}(${file.relativePath}:${call.line})`);
+        endpoints.set(key, endpoint);
+      });
+    });
+
+    if (endpoints.size === 0) {
+      return '';
+    }
+
+    const sorted = [...endpoints.values()].sort((a, b) => a.url.localeCompare(b.url) || a.method.localeCompare(b.method));
+
+    return `### 📡 接口请求目录 (${endpoints.size})
+
+| 方法 | URL | 调用方 |
+|------|-----|--------|
+${sorted.map(endpoint => `| ${endpoint.method} | \`${endpoint.url}\` | ${endpoint.callers.join(', ')} |`).join('\n')}
+
+`;
+  }
+
+  /**
+   * 生成环境变量清单（标注示例文件中未说明的变量）
+   */
+  private generateEnv(projectMap: ProjectMap): string {
+    const env = projectMap.env;
+    if (!env || env.variables.length === 0) {
+      return '## 🔑 环境变量\n\n暂未识别到环境变量读取';
+    }
+
+    const exampleFiles = env.exampleFiles.length > 0
+      ? env.exampleFiles.map(file => `\`${file}\``).join(', ')
+      : '未找到（建议添加 `.env.example`）';
+
+    const rows = env.variables.map(variable => {
+      const status = variable.builtin ? '内置' : variable.documentedIn.length > 0 ? '✅ 已说明' : '⚠️ 未说明';
+      const files = variable.files.slice(0, 3).map(file => `\`${file}\``).join(', ') +
+        (variable.files.length > 3 ? ` 等 ${variable.files.length} 个文件` : '');
+      return `| \`${variable.name}\` | ${files} | ${status} |`;
+    });
+
+    return `## 🔑 环境变量
+
+项目共读取 **${env.variables.length}** 个环境变量，其中 **${env.undocumented.length}** 个未在示例文件中说明
+
+**示例文件**: ${exampleFiles}
+
+| 变量 | 读取位置 | 状态 |
+|------|----------|------|
+${rows.join('\n')}
+${env.unused.length > 0 ? `
+**示例文件中声明但代码未读取**: ${env.unused.map(name => `\`${name}\``).join(', ')}
+` : ''}`;
+  }
+
   /**
    * 生成数据模型
    */
@@ -228,25 +409,28 @@ ${svc.functions.filter(f => f.isExported).map(f =>
     }
 
     const allInterfaces = typeFiles.flatMap(f => 
-      f.interfaces.map(i => ({ ...i, file: f.relativePath }))
+      f.interfaces.map(i => ({ name: i.name, file: f.relativePath, code: this.formatInterface(i) }))
+    );
+    const allTypeAliases = typeFiles.flatMap(f =>
+      f.typeAliases.map(t => ({ name: t.name, file: f.relativePath, code: this.formatTypeAlias(t) }))
+    );
+    const allEnums = typeFiles.flatMap(f =>
+      f.enums.map(e => ({ name: e.name, file: f.relativePath, code: this.formatEnum(e) }))
     );
 
     return `## 📘 数据模型
 
-项目共定义 **${allInterfaces.length}** 个接口/类型
+项目共定义 **${allInterfaces.length}** 个接口、**${allTypeAliases.length}** 个类型别名、**${allEnums.length}** 个枚举
 
-${this.groupDataModels(allInterfaces).map(group => `### ${group.category}
+${this.groupDataModels(allInterfaces, allTypeAliases, allEnums).map(group => `### ${group.category}
 
-${group.models.slice(0, 10).map(m => 
+${group.models.map(m => 
   `#### ${m.name}
 
 **定义位置**: \`${m.file}\`
 
 \`\`\`typescript
-interface ${m.name} {
-${m.properties.slice(0, 8).map((p: string) => `  ${p}${p.length > 50 ? '...' : ''};`).join('\n')}
-${m.properties.length > 8 ? '  // ... 更多属性' : ''}
-}
+${m.code}
 \`\`\`
 `).join('\n')}
 `).join('\n\n')}
@@ -282,6 +466,14 @@ ${this.detectCircularDependencies(projectMap)}
 
   // ========== 辅助方法 ==========
 
+  /**
+   * 自定义规则产生的角色名
+   */
+  private getCustomRoles(projectMap: ProjectMap): string[] {
+    const builtinRoles: string[] = Object.values(FileRole);
+    return Object.keys(projectMap.filesByRole).filter(role => !builtinRoles.includes(role));
+  }
+
   private calculateStats(projectMap: ProjectMap) {
     return {
       totalFiles: projectMap.totalFiles,
@@ -289,6 +481,8 @@ ${this.detectCircularDependencies(projectMap)}
       totalFunctions: projectMap.files.reduce((sum, f) => sum + f.functions.length, 0),
       totalClasses: projectMap.files.reduce((sum, f) => sum + f.classes.length, 0),
       totalInterfaces: projectMap.files.reduce((sum, f) => sum + f.interfaces.length, 0),
+      totalTypeAliases: projectMap.files.reduce((sum, f) => sum + f.typeAliases.length, 0),
+      totalEnums: projectMap.files.reduce((sum, f) => sum + f.enums.length, 0),
     };
   }
 
@@ -305,7 +499,7 @@ ${this.detectCircularDependencies(projectMap)}
     const type = this.identifyProjectType(projectMap);
     const mainFeature = projectMap.filesByRole.Component > 5 ? '组件化开发' : '功能模块化';
     
-    return `这是一个 **${type}**，采用 **${mainFeature}** 的方式组织代码。项目包含 ${stats.totalFunctions} 个函数、${stats.totalInterfaces} 个接口定义，代码结构${projectMap.totalFiles > 50 ? '较为复杂' : '相对简洁'}。`;
+    return `这是一个 **${type}**，采用 **${mainFeature}** 的方式组织代码。项目包含 ${stats.totalFunctions} 个函数、${stats.totalInterfaces} 个接口、${stats.totalTypeAliases} 个类型别名、${stats.totalEnums} 个枚举定义，代码结构${projectMap.totalFiles > 50 ? '较为复杂' : '相对简洁'}。`;
   }
 
   private generateDirectoryTree(projectMap: ProjectMap): string {
@@ -423,7 +617,7 @@ ${this.detectCircularDependencies(projectMap)}
   }
 
   private identifyLayerStructure(projectMap: ProjectMap): string {
-    const hasPages = projectMap.files.some(f => f.relativePath.includes('pages'));
+    const hasPages = projectMap.filesByRole.Page > 0;
     const hasComponents = projectMap.filesByRole.Component > 0;
     const hasServices = projectMap.filesByRole.Service > 0;
     
@@ -453,7 +647,7 @@ ${this.detectCircularDependencies(projectMap)}
 
   private extractFeatures(projectMap: ProjectMap) {
     const features: any[] = [];
-    const pageFiles = projectMap.files.filter(f => f.relativePath.includes('pages'));
+    const pageFiles = projectMap.files.filter(f => f.role === FileRole.PAGE);
     
     pageFiles.forEach(page => {
       features.push({
@@ -480,18 +674,69 @@ ${this.detectCircularDependencies(projectMap)}
     return file.exports[0] || path.basename(file.filePath, path.extname(file.filePath));
   }
 
+  /**
+   * 组件 Props 表格（React 取文件的主组件，Vue 取 defineProps）
+   */
   private extractProps(component: FileAnalysis): string {
-    const propsInterface = component.interfaces.find(i => 
-      i.name?.includes('Props')
-    );
-    return propsInterface ? `${propsInterface.properties.length} 个` : '未定义';
+    if (component.vueMacros) {
+      return component.vueMacros.props.length > 0
+        ? `${component.vueMacros.props.map(p => `\`${p}\``).join(', ')}`
+        : '无';
+    }
+
+    const exported = component.components.filter(c => c.isExported);
+    const components = exported.length > 0 ? exported : component.components;
+    if (components.length === 0) {
+      return '未识别到组件函数';
+    }
+    if (components.length === 1) {
+      return this.formatPropsTable(components[0].props);
+    }
+
+    // 一个文件导出多个组件时逐个列出
+    return components.map(c => `\n\n*${c.name === 'default' ? '默认导出' : c.name}*: ${this.formatPropsTable(c.props)}`).join('');
   }
 
-  private groupDataModels(models: any[]) {
-    return [{
-      category: '数据模型',
-      models: models.slice(0, 10),
-    }];
+  private formatPropsTable(props: PropInfo[]): string {
+    if (props.length === 0) {
+      return '无';
+    }
+
+    const escape = (text: string) => text.replace(/\|/g, '\\|');
+    return `
+
+| 名称 | 类型 | 必填 | 默认值 | 说明 |
+|------|------|------|--------|------|
+${props.map(p =>
+  `| \`${p.name}\` | \`${escape(p.type)}\` | ${p.optional ? '否' : '是'} | ${p.defaultValue ? `\`${escape(p.defaultValue)}\`` : '-'} | ${p.description ? escape(p.description) : '-'} |`
+).join('\n')}`;
+  }
+
+  private groupDataModels<T>(interfaces: T[], typeAliases: T[], enums: T[]) {
+    return [
+      { category: '接口', models: interfaces.slice(0, 10) },
+      { category: '类型别名', models: typeAliases.slice(0, 10) },
+      { category: '枚举', models: enums.slice(0, 10) },
+    ].filter(group => group.models.length > 0);
+  }
+
+  private formatInterface(iface: InterfaceInfo): string {
+    const lines = iface.properties.slice(0, 8).map(p => `  ${p}${p.length > 50 ? '...' : ''};`);
+    if (iface.properties.length > 8) lines.push('  // ... 更多属性');
+    return [`interface ${iface.name} {`, ...lines, '}'].join('\n');
+  }
+
+  private formatTypeAlias(typeAlias: TypeAliasInfo): string {
+    const definition = typeAlias.definition.length > 300
+      ? `${typeAlias.definition.slice(0, 300)} /* ... */`
+      : typeAlias.definition;
+    return `type ${typeAlias.name} = ${definition};`;
+  }
+
+  private formatEnum(enumInfo: EnumInfo): string {
+    const lines = enumInfo.members.slice(0, 12).map(m => `  ${m.name}${m.value !== undefined ? ` = ${m.value}` : ''},`);
+    if (enumInfo.members.length > 12) lines.push('  // ... 更多成员');
+    return [`${enumInfo.isConst ? 'const ' : ''}enum ${enumInfo.name} {`, ...lines, '}'].join('\n');
   }
 
   private findMostDependedFiles(depGraph: Record<string, string[]>) {
@@ -517,8 +762,18 @@ ${this.detectCircularDependencies(projectMap)}
   }
 
   private detectCircularDependencies(projectMap: ProjectMap): string {
-    // 简化版，实际需要图算法检测
-    return '✅ 未检测到明显的循环依赖';
+    const cycles = new CycleDetector(projectMap).findCycles();
+    if (cycles.length === 0) {
+      return '✅ 未检测到循环依赖';
+    }
+
+    const listed = cycles.slice(0, 10).map(cycle =>
+      `- ${[...cycle.files, cycle.files[0]].map(file => `\`${file}\``).join(' → ')}${cycle.typeOnly ? '（仅类型）' : ''}`
+    );
+
+    return `⚠️ 检测到 **${cycles.length}** 个循环依赖${cycles.length > 10 ? '（仅列出前 10 个，运行 `ai-pilot cycles` 查看全部）' : ''}
+
+${listed.join('\n')}`;
   }
 }
 
@@ -0,0 +1,116 @@
+import { SourceFile, SyntaxKind } from 'ts-morph';
+import path from 'path';
+import type { FileAnalysis, ImportInfo, ProjectMap } from './scanner.js';
+import { getImportBindings } from './import-bindings.js';
+
+/**
+ * JSX 中渲染的组件
+ */
+export interface RenderInfo {
+  component: string;          // JSX 标签名（如 Button、UI.Card）
+  moduleSpecifier: string;    // 组件的导入路径
+  importName: string;         // 源模块中的导出名（默认导出为 default，命名空间导入为成员名）
+  file?: string;              // 定义组件的本地文件（相对路径，经 barrel 导入时为实际定义文件）
+}
+
+/**
+ * 提取文件 JSX 中渲染的导入组件（本文件内定义的组件和原生标签不计入）
+ */
+export function extractRenders(sourceFile: SourceFile, imports: ImportInfo[], rootPath: string): RenderInfo[] {
+  const tagNames = [
+    ...sourceFile.getDescendantsOfKind(SyntaxKind.JsxOpeningElement),
+    ...sourceFile.getDescendantsOfKind(SyntaxKind.JsxSelfClosingElement),
+  ].map(element => element.getTagNameNode().getText());
+
+  if (tagNames.length === 0) {
+    return [];
+  }
+
+  const bindings = getImportBindings(sourceFile);
+  const renders = new Map<string, RenderInfo>();
+
+  tagNames.forEach(tagName => {
+    if (renders.has(tagName) || (!/^[A-Z]/.test(tagName) && !tagName.includes('.'))) return;
+
+    const [root, member] = tagName.split('.');
+    const binding = bindings.get(root);
+    if (!binding) return;
+
+    const importName = binding.namespace ? member : binding.importName;
+    if (!importName) return;
+
+    const imp = imports.find(i => i.moduleSpecifier === binding.moduleSpecifier && !i.reExport);
+    renders.set(tagName, {
+      component: tagName,
+      moduleSpecifier: binding.moduleSpecifier,
+      importName,
+      file: imp?.isLocal && imp.resolvedPath ? path.relative(rootPath, imp.resolvedPath) : undefined,
+    });
+  });
+
+  return [...renders.values()];
+}
+
+/**
+ * 渲染层级查询（基于项目地图中的 renders）
+ */
+export class RenderTree {
+  private byPath: Map<string, FileAnalysis>;
+
+  constructor(private projectMap: ProjectMap) {
+    this.byPath = new Map(projectMap.files.map(file => [file.relativePath, file]));
+  }
+
+  /**
+   * 按组件名、导出名或文件路径查找组件文件
+   */
+  find(query: string, cwd: string = process.cwd()): FileAnalysis[] {
+    const asPath = path.relative(this.projectMap.rootPath, path.resolve(cwd, query));
+    const byPath = this.byPath.get(asPath) ?? this.byPath.get(query);
+    if (byPath) {
+      return [byPath];
+    }
+
+    // 组件定义优先，其次是导出名和文件名（避免匹配到只做重导出的 barrel 文件）
+    const defining = this.projectMap.files.filter(file =>
+      (file.components ?? []).some(component => component.name === query)
+    );
+    if (defining.length > 0) {
+      return defining;
+    }
+
+    return this.projectMap.files.filter(file =>
+      file.exports.includes(query) ||
+      path.basename(file.relativePath, path.extname(file.relativePath)) === query
+    );
+  }
+
+  getFile(relativePath: string): FileAnalysis | undefined {
+    return this.byPath.get(relativePath);
+  }
+
+  /**
+   * 文件渲染的组件
+   */
+  getChildren(file: FileAnalysis): RenderInfo[] {
+    return file.renders ?? [];
+  }
+
+  /**
+   * 渲染了该文件中组件的文件
+   */
+  getParents(file: FileAnalysis): FileAnalysis[] {
+    return this.projectMap.files.filter(parent =>
+      parent !== file && (parent.renders ?? []).some(render => render.file === file.relativePath)
+    );
+  }
+
+  /**
+   * 文件的展示名称（主组件名，否则为文件名）
+   */
+  getLabel(file: FileAnalysis): string {
+    const component = (file.components ?? []).find(c => c.isExported && c.name !== 'default');
+    return component?.name ?? path.basename(file.relativePath, path.extname(file.relativePath));
+  }
+}
+
@@ -0,0 +1,103 @@
+import ignore, { Ignore } from 'ignore';
+import type { RoleRule } from './config.js';
+
+/**
+ * 规则匹配所需的文件信息
+ */
+export interface RoleRuleInput {
+  relativePath: string;
+  exports: string[];
+  calledNames: Set<string>;
+  importedModules: string[];
+  returnsJSX: boolean;
+}
+
+interface CompiledRule {
+  role: string;
+  files?: FilePatternMatcher;
+  exports?: RegExp;
+  calls?: string[];
+  imports?: string[];
+  jsx?: boolean;
+}
+
+/**
+ * 角色规则匹配器
+ * 按声明顺序返回第一个命中规则的角色名
+ */
+export class RoleRuleMatcher {
+  private rules: CompiledRule[];
+
+  constructor(rules: RoleRule[]) {
+    this.rules = rules.map(rule => ({
+      role: rule.role,
+      files: rule.files ? new FilePatternMatcher(toArray(rule.files)) : undefined,
+      exports: rule.exports ? new RegExp(rule.exports) : undefined,
+      calls: rule.calls ? toArray(rule.calls) : undefined,
+      imports: rule.imports ? toArray(rule.imports) : undefined,
+      jsx: rule.jsx,
+    }));
+  }
+
+  /**
+   * 匹配文件角色，没有规则命中时返回 undefined
+   */
+  match(input: RoleRuleInput): string | undefined {
+    return this.rules.find(rule => this.matches(rule, input))?.role;
+  }
+
+  private matches(rule: CompiledRule, input: RoleRuleInput): boolean {
+    if (rule.files && !rule.files.matches(input.relativePath)) {
+      return false;
+    }
+    if (rule.exports && !input.exports.some(name => rule.exports!.test(name))) {
+      return false;
+    }
+    if (rule.calls && !rule.calls.some(name => input.calledNames.has(name))) {
+      return false;
+    }
+    if (rule.imports && !rule.imports.some(lib =>
+      input.importedModules.some(spec => spec === lib || spec.startsWith(lib + '/'))
+    )) {
+      return false;
+    }
+    if (rule.jsx !== undefined && rule.jsx !== input.returnsJSX) {
+      return false;
+    }
+    return true;
+  }
+}
+
+/**
+ * 文件模式匹配器（gitignore 语法，按声明顺序以最后命中的模式为准）
+ * 与目录忽略不同，父目录命中后仍可用 ! 模式排除其中的文件（如 src/** 与 !src/legacy/**）
+ */
+export class FilePatternMatcher {
+  private patterns: Array<{ matcher: Ignore; negated: boolean }>;
+
+  constructor(patterns: string[]) {
+    this.patterns = patterns.map(pattern => {
+      const negated = pattern.startsWith('!');
+      return { matcher: ignore().add(unanchor(negated ? pattern.slice(1) : pattern)), negated };
+    });
+  }
+
+  matches(relativePath: string): boolean {
+    const normalized = relativePath.split('\\').join('/');
+    return this.patterns.reduce(
+      (matched, { matcher, negated }) => matcher.ignores(normalized) ? !negated : matched,
+      false
+    );
+  }
+}
+
+/**
+ * 不以 / 开头的模式匹配任意层级（如 features/cart/slice.ts 也能匹配 src/features/cart/slice.ts）
+ */
+function unanchor(pattern: string): string {
+  return pattern.startsWith('/') || pattern.startsWith('**/') ? pattern : `**/${pattern}`;
+}
+
+export function toArray(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
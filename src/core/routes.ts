@@ -0,0 +1,411 @@
+import { SourceFile, SyntaxKind, Node, JsxElement, JsxSelfClosingElement, ObjectLiteralExpression, ArrayLiteralExpression } from 'ts-morph';
+import path from 'path';
+import type { FileAnalysis } from './scanner.js';
+import { getImportBindings, ImportBinding } from './import-bindings.js';
+
+/**
+ * 路由来源
+ */
+export type RouteSource = 'react-router' | 'next-pages' | 'next-app';
+
+/**
+ * 路由表项
+ */
+export interface RouteInfo {
+  path: string;               // 完整路径（保留动态段原写法，如 /users/:id、/blog/[slug]）
+  source: RouteSource;
+  file: string;               // 定义路由的文件（Next.js 为页面文件本身）
+  component?: string;         // 页面组件名
+  componentFile?: string;     // 页面组件所在的本地文件（相对路径）
+  moduleSpecifier?: string;   // 页面组件的导入路径（用于经 barrel 还原定义文件）
+  importName?: string;        // 页面组件在源模块中的导出名
+  loaders: string[];          // 数据加载函数（loader、getServerSideProps、generateStaticParams 等）
+  layouts: string[];          // 外层布局（父路由组件 / Next.js 的 _app、layout 文件）
+  params: string[];           // 动态参数名
+}
+
+/**
+ * react-router 所在的模块
+ */
+const REACT_ROUTER_MODULES = ['react-router', 'react-router-dom'];
+
+/**
+ * 接收路由对象数组的函数
+ */
+const ROUTE_OBJECT_FUNCTIONS = ['createBrowserRouter', 'createHashRouter', 'createMemoryRouter', 'createStaticRouter', 'useRoutes'];
+
+/**
+ * Next.js pages 目录中的数据获取导出
+ */
+const NEXT_PAGES_DATA_EXPORTS = ['getServerSideProps', 'getStaticProps', 'getStaticPaths', 'getInitialProps'];
+
+/**
+ * Next.js app 目录中的数据获取导出
+ */
+const NEXT_APP_DATA_EXPORTS = ['generateStaticParams', 'generateMetadata'];
+
+/**
+ * Next.js pages 目录中不对应路由的特殊文件
+ */
+const NEXT_PAGES_SPECIAL_FILES = ['_app', '_document', '_error', '_middleware'];
+
+type RouteNode = JsxElement | JsxSelfClosingElement;
+
+/**
+ * 路由组件的定位信息
+ */
+interface RouteComponent {
+  name: string;
+  moduleSpecifier?: string;
+  importName?: string;
+}
+
+/**
+ * 提取文件中的 react-router 路由定义（<Route> 元素与 createBrowserRouter / useRoutes 路由对象）
+ * resolveFile 将导入路径解析为本地文件（相对路径），无法解析时返回 undefined
+ */
+export function extractRoutes(
+  sourceFile: SourceFile,
+  relativePath: string,
+  resolveFile: (moduleSpecifier: string) => string | undefined
+): RouteInfo[] {
+  const bindings = getImportBindings(sourceFile);
+  const routerBindings = [...bindings.entries()].filter(([, binding]) => REACT_ROUTER_MODULES.includes(binding.moduleSpecifier));
+  if (routerBindings.length === 0) {
+    return [];
+  }
+
+  const routes: RouteInfo[] = [];
+  const routeTags = routerBindings.filter(([, binding]) => binding.importName === 'Route').map(([local]) => local);
+
+  const toRoute = (
+    routePath: string,
+    component: RouteComponent | undefined,
+    loaders: string[],
+    layouts: string[]
+  ): RouteInfo => {
+    const moduleSpecifier = component?.moduleSpecifier;
+    return {
+      path: routePath,
+      source: 'react-router',
+      file: relativePath,
+      component: component?.name,
+      componentFile: moduleSpecifier ? resolveFile(moduleSpecifier) : component && relativePath,
+      moduleSpecifier,
+      importName: component?.importName,
+      loaders,
+      layouts,
+      params: getRouteParams(routePath),
+    };
+  };
+
+  // <Route path element loader>：从最外层的 <Route> 开始递归
+  const visitElement = (element: RouteNode, parentPath: string, layouts: string[]): void => {
+    const attributes = getJsxAttributes(element);
+    const pathNode = attributes.get('path');
+    const routePath = joinRoutePath(parentPath, pathNode ? readString(pathNode) : undefined, attributes.has('index'));
+    const component = readComponent(attributes.get('element') ?? attributes.get('Component'), sourceFile, bindings);
+    const children = getChildRouteElements(element, routeTags);
+
+    if (pathNode || attributes.has('index') || children.length === 0) {
+      routes.push(toRoute(routePath, component, readLoaders(attributes.get('loader')), layouts));
+    }
+
+    const childLayouts = component && children.length > 0 ? [...layouts, component.name] : layouts;
+    children.forEach(child => visitElement(child, routePath, childLayouts));
+  };
+
+  // { path, element, loader, children }：从路由对象数组开始递归
+  const visitObject = (object: ObjectLiteralExpression, parentPath: string, layouts: string[]): void => {
+    const property = (name: string) => {
+      const prop = object.getProperty(name);
+      return Node.isPropertyAssignment(prop) ? prop.getInitializer() : Node.isShorthandPropertyAssignment(prop) ? prop.getNameNode() : undefined;
+    };
+
+    const pathNode = property('path');
+    const isIndex = property('index')?.getText() === 'true';
+    const routePath = joinRoutePath(parentPath, pathNode ? readString(pathNode) : undefined, isIndex);
+    const component = readComponent(property('element') ?? property('Component'), sourceFile, bindings) ??
+      readLazyComponent(property('lazy'));
+    const childrenNode = property('children');
+    const children = childrenNode && Node.isArrayLiteralExpression(childrenNode) ? getRouteObjects(childrenNode) : [];
+
+    if (pathNode || isIndex || children.length === 0) {
+      routes.push(toRoute(routePath, component, readLoaders(property('loader')), layouts));
+    }
+
+    const childLayouts = component && children.length > 0 ? [...layouts, component.name] : layouts;
+    children.forEach(child => visitObject(child, routePath, childLayouts));
+  };
+
+  if (routeTags.length > 0) {
+    [
+      ...sourceFile.getDescendantsOfKind(SyntaxKind.JsxElement),
+      ...sourceFile.getDescendantsOfKind(SyntaxKind.JsxSelfClosingElement),
+    ]
+      .filter(element => isRouteElement(element, routeTags) && !element.getAncestors().some(a => isRouteElement(a, routeTags)))
+      .sort((a, b) => a.getStart() - b.getStart())
+      .forEach(element => visitElement(element, '', []));
+  }
+
+  findRouteArrays(sourceFile, routerBindings.map(([local, binding]) => [local, binding.importName]))
+    .forEach(array => getRouteObjects(array).forEach(object => visitObject(object, '', [])));
+
+  return routes;
+}
+
+/**
+ * 根据文件路径生成 Next.js 文件系统路由（pages/ 与 app/ 目录）
+ */
+export function buildFileSystemRoutes(files: FileAnalysis[]): RouteInfo[] {
+  const byPath = new Map(files.map(file => [file.relativePath, file]));
+  const routes: RouteInfo[] = [];
+
+  files.forEach(file => {
+    if (!/\.[jt]sx?$/.test(file.relativePath) || /\.(test|spec)\.[^.]+$/.test(file.relativePath)) return;
+
+    const segments = file.relativePath.split(path.sep);
+    const baseName = path.basename(file.relativePath).replace(/\.[^.]+$/, '');
+    const component = getPageComponent(file);
+
+    // app/**/page.tsx
+    const appIndex = segments.lastIndexOf('app');
+    if (appIndex >= 0 && baseName === 'page') {
+      const dirs = segments.slice(appIndex + 1, -1);
+      if (dirs.some(dir => dir.startsWith('_'))) return;
+
+      const routeSegments = dirs
+        .filter(dir => !/^\(.*\)$/.test(dir) && !dir.startsWith('@'))
+        .map(dir => dir.replace(/^(\(\.{1,3}\))+/, ''));
+      const routePath = '/' + routeSegments.join('/');
+
+      // 从 app 根目录到页面目录逐层查找 layout 文件
+      const layouts: string[] = [];
+      for (let depth = 0; depth <= dirs.length; depth++) {
+        const dir = path.join(...segments.slice(0, appIndex + 1), ...dirs.slice(0, depth));
+        const layout = ['tsx', 'jsx', 'ts', 'js'].map(ext => path.join(dir, `layout.${ext}`)).find(p => byPath.has(p));
+        if (layout) layouts.push(layout);
+      }
+
+      routes.push({
+        path: routePath,
+        source: 'next-app',
+        file: file.relativePath,
+        component,
+        componentFile: file.relativePath,
+        loaders: file.exports.filter(name => NEXT_APP_DATA_EXPORTS.includes(name)),
+        layouts,
+        params: getRouteParams(routePath),
+      });
+      return;
+    }
+
+    // pages/**（排除 pages/api 与 _app、_document 等特殊文件）
+    const pagesIndex = segments.lastIndexOf('pages');
+    if (pagesIndex >= 0 && segments[pagesIndex + 1] !== 'api' && !NEXT_PAGES_SPECIAL_FILES.includes(baseName) && file.exports.includes('default')) {
+      const routeSegments = [...segments.slice(pagesIndex + 1, -1), baseName].filter(segment => segment !== 'index');
+      const routePath = '/' + routeSegments.join('/');
+      const pagesDir = path.join(...segments.slice(0, pagesIndex + 1));
+      const app = ['tsx', 'jsx', 'ts', 'js'].map(ext => path.join(pagesDir, `_app.${ext}`)).find(p => byPath.has(p));
+
+      routes.push({
+        path: routePath,
+        source: 'next-pages',
+        file: file.relativePath,
+        component,
+        componentFile: file.relativePath,
+        loaders: file.exports.filter(name => NEXT_PAGES_DATA_EXPORTS.includes(name)),
+        layouts: app ? [app] : [],
+        params: getRouteParams(routePath),
+      });
+    }
+  });
+
+  return routes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * 路径中的动态参数（:id、*、[id]、[...slug]、[[...slug]]）
+ */
+function getRouteParams(routePath: string): string[] {
+  return routePath.split('/').flatMap(segment => {
+    if (segment.startsWith(':')) return [segment.slice(1).replace(/\?$/, '')];
+    if (segment === '*') return ['*'];
+    const match = segment.match(/^\[{1,2}(?:\.\.\.)?([^\]]+)\]{1,2}$/);
+    return match ? [match[1]] : [];
+  });
+}
+
+/**
+ * 拼接父子路由路径（以 / 开头的子路径为绝对路径）
+ */
+function joinRoutePath(parentPath: string, routePath: string | undefined, isIndex: boolean): string {
+  if (isIndex || routePath === undefined) {
+    return parentPath || '/';
+  }
+  if (routePath.startsWith('/')) {
+    return routePath;
+  }
+  return `${parentPath.replace(/\/$/, '')}/${routePath}`;
+}
+
+/**
+ * Next.js 页面文件的组件名（默认导出的组件，匿名时为 default）
+ */
+function getPageComponent(file: FileAnalysis): string {
+  const components = file.components ?? [];
+  return (components.find(c => c.isExported) ?? components[0])?.name ?? 'default';
+}
+
+function isRouteElement(node: Node, routeTags: string[]): node is RouteNode {
+  if (Node.isJsxElement(node)) {
+    return routeTags.includes(node.getOpeningElement().getTagNameNode().getText());
+  }
+  return Node.isJsxSelfClosingElement(node) && routeTags.includes(node.getTagNameNode().getText());
+}
+
+/**
+ * 直接嵌套的子 <Route>（跳过中间的 Fragment 等元素）
+ */
+function getChildRouteElements(element: RouteNode, routeTags: string[]): RouteNode[] {
+  if (!Node.isJsxElement(element)) {
+    return [];
+  }
+
+  const children: RouteNode[] = [];
+  element.getJsxChildren().forEach(child => {
+    if (isRouteElement(child, routeTags)) {
+      children.push(child);
+    } else if (Node.isJsxElement(child) || Node.isJsxFragment(child)) {
+      children.push(...child.getDescendants()
+        .filter((node): node is RouteNode => isRouteElement(node, routeTags))
+        .filter(node => node.getAncestors().find(a => isRouteElement(a, routeTags)) === element));
+    }
+  });
+  return children;
+}
+
+/**
+ * JSX 属性名 -> 值表达式（布尔简写属性的值为自身）
+ */
+function getJsxAttributes(element: RouteNode): Map<string, Node> {
+  const attributes = new Map<string, Node>();
+  const opening = Node.isJsxElement(element) ? element.getOpeningElement() : element;
+
+  opening.getAttributes().forEach(attribute => {
+    if (!Node.isJsxAttribute(attribute)) return;
+    const initializer = attribute.getInitializer();
+    const value = initializer && Node.isJsxExpression(initializer) ? initializer.getExpression() : initializer;
+    attributes.set(attribute.getNameNode().getText(), value ?? attribute);
+  });
+  return attributes;
+}
+
+/**
+ * 字符串字面量的值
+ */
+function readString(node: Node): string | undefined {
+  return Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node) ? node.getLiteralValue() : undefined;
+}
+
+/**
+ * 路由组件：element={<Page />}、Component={Page}
+ * 组件来自导入、本文件定义或 lazy(() => import('./Page'))
+ */
+function readComponent(node: Node | undefined, sourceFile: SourceFile, bindings: Map<string, ImportBinding>): RouteComponent | undefined {
+  if (!node) return undefined;
+
+  let tagName: string | undefined;
+  if (Node.isIdentifier(node) || Node.isPropertyAccessExpression(node)) {
+    tagName = node.getText();
+  } else {
+    const element = Node.isJsxSelfClosingElement(node) || Node.isJsxElement(node) ? node : undefined;
+    const jsx = element ?? node.getFirstDescendant(n => Node.isJsxSelfClosingElement(n) || Node.isJsxElement(n));
+    if (jsx && (Node.isJsxSelfClosingElement(jsx) || Node.isJsxElement(jsx))) {
+      tagName = (Node.isJsxElement(jsx) ? jsx.getOpeningElement() : jsx).getTagNameNode().getText();
+    }
+  }
+  // 原生标签（<div />）不视为页面组件
+  if (!tagName || /^[a-z][^.]*$/.test(tagName)) return undefined;
+
+  const [root, member] = tagName.split('.');
+  const binding = bindings.get(root);
+  if (binding) {
+    return {
+      name: tagName,
+      moduleSpecifier: binding.moduleSpecifier,
+      importName: binding.namespace ? member : binding.importName,
+    };
+  }
+
+  const lazyImport = sourceFile.getVariableDeclaration(root)?.getInitializer();
+  return readLazyComponent(lazyImport, tagName) ?? { name: tagName };
+}
+
+/**
+ * lazy(() => import('./Page')) 或 lazy: () => import('./Page') 中的页面模块
+ */
+function readLazyComponent(node: Node | undefined, name?: string): RouteComponent | undefined {
+  const dynamicImport = node?.getFirstDescendant(n =>
+    Node.isCallExpression(n) && n.getExpression().getKind() === SyntaxKind.ImportKeyword
+  );
+  if (!dynamicImport || !Node.isCallExpression(dynamicImport)) return undefined;
+
+  const [specifier] = dynamicImport.getArguments();
+  const moduleSpecifier = specifier ? readString(specifier) : undefined;
+  if (!moduleSpecifier) return undefined;
+
+  return {
+    name: name ?? path.basename(moduleSpecifier).replace(/\.[^.]+$/, ''),
+    moduleSpecifier,
+    importName: 'default',
+  };
+}
+
+/**
+ * loader={usersLoader} / loader: async () => ...
+ */
+function readLoaders(node: Node | undefined): string[] {
+  if (!node) return [];
+  if (Node.isIdentifier(node) || Node.isPropertyAccessExpression(node)) {
+    return [node.getText()];
+  }
+  return ['（内联函数）'];
+}
+
+/**
+ * 路由对象数组：createBrowserRouter([...]) / useRoutes([...]) 的参数（含同文件变量），以及标注为 RouteObject[] 的变量
+ */
+function findRouteArrays(sourceFile: SourceFile, routerBindings: Array<[string, string | undefined]>): ArrayLiteralExpression[] {
+  const arrays = new Set<ArrayLiteralExpression>();
+  const functions = routerBindings.filter(([, importName]) => importName && ROUTE_OBJECT_FUNCTIONS.includes(importName)).map(([local]) => local);
+
+  sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression).forEach(call => {
+    if (!functions.includes(call.getExpression().getText())) return;
+
+    let [arg] = call.getArguments();
+    if (arg && Node.isIdentifier(arg)) {
+      arg = sourceFile.getVariableDeclaration(arg.getText())?.getInitializer() ?? arg;
+    }
+    if (arg && Node.isCallExpression(arg)) {
+      // createBrowserRouter(createRoutesFromElements(<Route ... />)) 已由 <Route> 解析
+      return;
+    }
+    if (arg && Node.isArrayLiteralExpression(arg)) {
+      arrays.add(arg);
+    }
+  });
+
+  sourceFile.getVariableDeclarations().forEach(decl => {
+    const initializer = decl.getInitializer();
+    if (initializer && Node.isArrayLiteralExpression(initializer) && /\bRouteObject\b/.test(decl.getTypeNode()?.getText() ?? '')) {
+      arrays.add(initializer);
+    }
+  });
+
+  return [...arrays];
+}
+
+function getRouteObjects(array: ArrayLiteralExpression): ObjectLiteralExpression[] {
+  return array.getElements().filter(Node.isObjectLiteralExpression);
+}
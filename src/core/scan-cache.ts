@@ -0,0 +1,246 @@
+import { globby } from 'globby';
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs-extra';
+import type { FileAnalysis } from './scanner.js';
+import type { TaskContext } from './hydrator.js';
+import { PRUNED_GLOBS } from './ignore.js';
+import { CONFIG_FILE_NAMES } from './config.js';
+
+/**
+ * 缓存文件名（位于输出目录）
+ */
+export const SCAN_CACHE_FILE = 'scan-cache.json';
+
+/**
+ * 缓存结构版本，FileAnalysis 结构变化时递增
+ */
+export const SCAN_CACHE_VERSION = 16;
+
+/**
+ * 影响模块解析和角色识别结果的配置文件
+ */
+const RESOLUTION_CONFIG_GLOBS = [
+  '**/tsconfig*.json',
+  '**/jsconfig.json',
+  '**/package.json',
+  'pnpm-workspace.yaml',
+  '**/vite.config.*',
+  '**/webpack.config.*',
+  ...CONFIG_FILE_NAMES,
+];
+
+/**
+ * 单个文件的缓存条目
+ */
+export interface CacheEntry {
+  hash: string;
+  analysis: FileAnalysis;
+  tasks?: Array<{ type: string; text: string; line: number }>;
+  aiTasks?: TaskContext[];
+}
+
+interface ScanCacheData {
+  version: number;
+  resolutionKey: string;
+  files: Record<string, CacheEntry>;
+}
+
+/**
+ * 增量扫描计划
+ */
+export interface IncrementalPlan {
+  reused: string[];           // 直接复用缓存的文件
+  changed: string[];          // 需要重新分析的文件（新增、修改、导入解析可能变化，以及直接或间接导入这些文件的文件）
+  removed: string[];          // 已删除的文件
+}
+
+/**
+ * 扫描缓存
+ * 按相对路径记录文件内容哈希和分析结果，用于 scan --incremental
+ */
+export class ScanCache {
+  private entries: Record<string, CacheEntry>;
+  private fresh = new Set<string>();
+
+  private constructor(
+    private cacheFile: string,
+    private rootPath: string,
+    private resolutionKey: string,
+    data?: ScanCacheData
+  ) {
+    // 结构版本或解析配置变化时整体失效
+    const valid = data && data.version === SCAN_CACHE_VERSION && data.resolutionKey === resolutionKey;
+    this.entries = valid ? data.files : {};
+  }
+
+  /**
+   * 加载输出目录中的缓存
+   */
+  static async load(outputPath: string, rootPath: string): Promise<ScanCache> {
+    const cacheFile = path.join(outputPath, SCAN_CACHE_FILE);
+    const resolutionKey = await computeResolutionKey(rootPath);
+
+    let data: ScanCacheData | undefined;
+    if (await fs.pathExists(cacheFile)) {
+      try {
+        data = await fs.readJson(cacheFile);
+      } catch (error) {
+        // 缓存损坏时当作无缓存处理
+      }
+    }
+
+    return new ScanCache(cacheFile, rootPath, resolutionKey, data);
+  }
+
+  /**
+   * 计算文件内容哈希
+   */
+  static hashContent(content: string): string {
+    return crypto.createHash('sha1').update(content).digest('hex');
+  }
+
+  /**
+   * 根据当前文件哈希生成增量计划
+   * @param currentHashes 相对路径 -> 内容哈希
+   */
+  plan(currentHashes: Map<string, string>): IncrementalPlan {
+    const added = [...currentHashes.keys()].filter(file => !this.entries[file]);
+    const removed = Object.keys(this.entries).filter(file => !currentHashes.has(file));
+    const changed = new Set(added);
+
+    for (const [file, hash] of currentHashes) {
+      if (this.entries[file] && this.entries[file].hash !== hash) {
+        changed.add(file);
+      }
+    }
+
+    // 文件增删可能改变其他文件的导入解析结果
+    if (added.length > 0 || removed.length > 0) {
+      const removedSet = new Set(removed);
+      const addedDirs = new Set(added.map(file => path.dirname(file)));
+      const addedStems = added.map(file => file.replace(/(\/index)?\.[^./]+$/, ''));
+
+      for (const file of currentHashes.keys()) {
+        if (changed.has(file)) continue;
+        const affected = this.entries[file].analysis.imports.some(imp => {
+          // 之前未解析的导入可能指向新增文件（含别名导入）
+          if (!imp.resolvedPath) {
+            const specifier = imp.moduleSpecifier.replace(/^[@~#]\//, '').replace(/^(\.\.?\/)+/, '');
+            return addedStems.some(stem => stem === specifier || stem.endsWith('/' + specifier));
+          }
+          const target = path.relative(this.rootPath, imp.resolvedPath);
+          // 目标被删除，或新增文件可能抢先匹配（foo.ts 先于 foo/index.ts）
+          return removedSet.has(target) ||
+                 addedDirs.has(path.dirname(target)) ||
+                 addedDirs.has(path.dirname(path.dirname(target)));
+        });
+        if (affected) {
+          changed.add(file);
+        }
+      }
+    }
+
+    // 分析结果还取决于导入的文件（barrel 的导出列表、推断的返回类型与 Props 类型等），
+    // 因此沿导入关系向上，依赖变化文件的文件同样重新分析
+    const dependents = new Map<string, string[]>();
+    for (const file of currentHashes.keys()) {
+      const analysis = this.entries[file]?.analysis;
+      if (!analysis) continue;
+      const targets = new Set([
+        ...analysis.dependencies,
+        ...analysis.imports.filter(imp => imp.resolvedPath).map(imp => path.relative(this.rootPath, imp.resolvedPath!)),
+      ]);
+      targets.forEach(target => dependents.set(target, [...(dependents.get(target) ?? []), file]));
+    }
+
+    const queue = [...changed, ...removed];
+    while (queue.length > 0) {
+      for (const dependent of dependents.get(queue.pop()!) ?? []) {
+        if (!changed.has(dependent)) {
+          changed.add(dependent);
+          queue.push(dependent);
+        }
+      }
+    }
+
+    const reused = [...currentHashes.keys()].filter(file => !changed.has(file));
+    return { reused, changed: [...changed], removed };
+  }
+
+  /**
+   * 获取缓存条目
+   */
+  get(relativePath: string): CacheEntry | undefined {
+    return this.entries[relativePath];
+  }
+
+  /**
+   * 判断条目在本次扫描中是否仍然有效（可复用任务等附加数据）
+   */
+  isFresh(relativePath: string): boolean {
+    return this.fresh.has(relativePath);
+  }
+
+  /**
+   * 标记复用的条目
+   */
+  markFresh(relativePath: string): void {
+    this.fresh.add(relativePath);
+  }
+
+  /**
+   * 写入文件分析结果
+   */
+  setAnalysis(relativePath: string, hash: string, analysis: FileAnalysis): void {
+    this.entries[relativePath] = { hash, analysis };
+  }
+
+  /**
+   * 写入文件的任务数据
+   */
+  setTasks(relativePath: string, tasks: CacheEntry['tasks'], aiTasks: TaskContext[]): void {
+    const entry = this.entries[relativePath];
+    if (entry) {
+      entry.tasks = tasks;
+      entry.aiTasks = aiTasks;
+    }
+  }
+
+  /**
+   * 移除已删除文件的条目
+   */
+  remove(relativePaths: string[]): void {
+    relativePaths.forEach(file => delete this.entries[file]);
+  }
+
+  /**
+   * 保存缓存
+   */
+  async save(): Promise<void> {
+    await fs.ensureDir(path.dirname(this.cacheFile));
+    const data: ScanCacheData = {
+      version: SCAN_CACHE_VERSION,
+      resolutionKey: this.resolutionKey,
+      files: this.entries,
+    };
+    await fs.writeJson(this.cacheFile, data);
+  }
+}
+
+/**
+ * 计算解析配置指纹（tsconfig、package.json、打包工具配置等）
+ */
+async function computeResolutionKey(rootPath: string): Promise<string> {
+  const configFiles = await globby(RESOLUTION_CONFIG_GLOBS, {
+    cwd: rootPath,
+    ignore: PRUNED_GLOBS,
+  });
+
+  const hash = crypto.createHash('sha1');
+  for (const file of configFiles.sort()) {
+    hash.update(file);
+    hash.update(await fs.readFile(path.join(rootPath, file), 'utf-8'));
+  }
+  return hash.digest('hex');
+}
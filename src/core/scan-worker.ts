@@ -0,0 +1,27 @@
+import { parentPort, workerData } from 'worker_threads';
+import { ProjectScanner } from './scanner.js';
+import type { WorkerRequest, WorkerResponse } from './parallel-analyzer.js';
+
+/**
+ * 扫描工作线程入口
+ * 每个线程持有独立的 ts-morph Project，逐批分析主线程派发的文件
+ */
+const scanner = new ProjectScanner(workerData.rootPath, workerData.options);
+
+parentPort?.on('message', (request: WorkerRequest) => {
+  let response: WorkerResponse;
+
+  try {
+    // 先加载整批文件再分析，避免每个文件都触发类型检查器重建
+    const sourceFiles = request.files.map(filePath => scanner.getSourceFile(filePath));
+    const analyses = sourceFiles.map(sourceFile => scanner.analyzeFile(sourceFile));
+
+    // 整批分析完成后释放 AST，控制线程内存
+    sourceFiles.forEach(sourceFile => scanner.releaseSourceFile(sourceFile));
+    response = { type: 'result', analyses };
+  } catch (error: any) {
+    response = { type: 'error', message: error?.message ?? String(error) };
+  }
+
+  parentPort?.postMessage(response);
+});
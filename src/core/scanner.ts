@@ -2,62 +2,170 @@ import { Project, SourceFile, SyntaxKind, Node } from 'ts-morph';
 import { globby } from 'globby';
 import path from 'path';
 import fs from 'fs';
+import { IgnoreMatcher, PRUNED_GLOBS } from './ignore.js';
+import { ModuleResolver } from './module-resolver.js';
+import { WorkspacePackageInfo } from './workspace.js';
+import { ScanCache } from './scan-cache.js';
+import { analyzeInParallel, PARALLEL_THRESHOLD } from './parallel-analyzer.js';
+import { findDynamicImports, findCommonJsExports, ImportKind } from './dynamic-imports.js';
+import { loadSourceFile } from './source-loader.js';
+import { extractVueMacros, VueMacros } from './vue-sfc.js';
+import { RoleRuleMatcher } from './role-rules.js';
+import { findSymbolSource, readReExport, BarrelModule } from './barrel.js';
+import { extractSignature, SignatureInfo } from './signature.js';
+import { extractDoc, DocInfo } from './doc-comments.js';
+import { extractComponents, ComponentInfo } from './component-props.js';
+import { extractRenders, RenderInfo } from './render-tree.js';
+import { extractHookUsage, HookUsage } from './hook-usage.js';
+import { extractRoutes, buildFileSystemRoutes, RouteInfo } from './routes.js';
+import { extractApiCalls, ApiCallInfo } from './api-calls.js';
+import { extractEnvUsage, buildEnvInventory, parseEnvExample, EnvUsage, EnvInventory } from './env-usage.js';
+import type { RoleRule } from './config.js';
 
 /**
  * 文件角色类型
  */
 export enum FileRole {
   COMPONENT = 'Component',      // React 组件
+  PAGE = 'Page',                // 页面（Next.js pages/、app/ 或 pages/、views/ 目录下的页面组件）
+  ROUTE = 'Route',              // 路由配置或 API 路由处理器
+  STORE = 'Store',              // 状态仓库（Redux slice、Zustand、Pinia 等）
+  CONTEXT = 'Context',          // React Context 及其 Provider
   HOOK = 'Hook',                // React Hook
   UTILITY = 'Utility',          // 工具函数
   SERVICE = 'Service',          // 服务类/API
   TYPE = 'Type',                // 类型定义
   CONFIG = 'Config',            // 配置文件
+  TEST = 'Test',                // 测试文件
+  STYLE = 'Style',              // 样式文件（CSS-in-JS、*.styles.ts）
   UNKNOWN = 'Unknown',          // 未知类型
 }
 
+/**
+ * 状态管理库（从这些库导入并调用工厂函数的文件视为 Store）
+ */
+const STORE_LIBRARIES = ['@reduxjs/toolkit', 'redux', 'zustand', 'pinia', 'mobx', 'jotai', 'recoil', 'valtio'];
+
+/**
+ * 状态管理库的 Store 工厂函数
+ */
+const STORE_FACTORIES = [
+  'createSlice', 'configureStore', 'createStore', 'combineReducers', 'create', 'defineStore',
+  'makeAutoObservable', 'makeObservable', 'atom', 'atomFamily', 'selector', 'proxy',
+];
+
+/**
+ * CSS-in-JS 库
+ */
+const STYLE_LIBRARIES = ['styled-components', '@emotion/styled', '@emotion/css', '@vanilla-extract/css', '@stitches/react'];
+
+/**
+ * 路由工厂函数（react-router / vue-router）
+ */
+const ROUTER_FACTORIES = ['createBrowserRouter', 'createHashRouter', 'createMemoryRouter', 'createRoutesFromElements', 'createRouter'];
+
+/**
+ * Next.js app 目录下的页面约定文件
+ */
+const APP_PAGE_FILES = ['page', 'layout', 'template', 'loading', 'error', 'not-found'];
+
 /**
  * 文件分析结果
  */
 export interface FileAnalysis {
   filePath: string;
   relativePath: string;
-  role: FileRole;
+  role: FileRole | string;    // 自定义角色规则可返回任意角色名
+  packageName?: string;        // 所属工作区包
   exports: string[];
   dependencies: string[];      // 本地文件依赖
   imports: ImportInfo[];
   functions: FunctionInfo[];
   classes: ClassInfo[];
   interfaces: InterfaceInfo[];
+  typeAliases: TypeAliasInfo[];
+  enums: EnumInfo[];
+  components: ComponentInfo[];  // React 函数组件及其 Props
+  renders: RenderInfo[];        // JSX 中渲染的导入组件
+  hooks: HookUsage[];           // 各函数调用的 Hook
+  routes: RouteInfo[];          // 文件中定义的 react-router 路由
+  apiCalls: ApiCallInfo[];      // 发起的 HTTP 请求
+  envVars: EnvUsage[];          // 读取的环境变量
+  vueMacros?: VueMacros;       // Vue 单文件组件的 defineProps / defineEmits
 }
 
 export interface ImportInfo {
   moduleSpecifier: string;
+  kind: ImportKind;           // static / dynamic（import()）/ require
+  line?: number;              // 导入语句所在行（旧版项目地图中没有）
   namedImports: string[];
   defaultImport?: string;
   isLocal: boolean;           // 是否为本地文件
+  isTypeOnly?: boolean;       // import type / export type（或全部为 type 修饰的具名导入）
   resolvedPath?: string;      // 解析后的绝对路径
+  workspacePackage?: string;  // 跨工作区包导入时的目标包名
+  reExport?: ReExportInfo;    // export ... from 重导出声明
+  symbolSources?: Record<string, string>;  // 经 barrel 文件导入的符号 -> 实际定义文件（相对路径）
 }
 
-export interface FunctionInfo {
+/**
+ * 重导出信息
+ */
+export interface ReExportInfo {
+  all: boolean;                     // export * from
+  names: Record<string, string>;    // 导出名 -> 源模块中的名称（命名空间导出为 '*'）
+}
+
+export interface FunctionInfo extends SignatureInfo {
   name?: string;
-  parameters: string[];
   isAsync: boolean;
   isExported: boolean;
   returnsJSX: boolean;        // 是否返回 JSX
+  doc?: DocInfo;
 }
 
 export interface ClassInfo {
   name?: string;
-  methods: string[];
+  methods: MethodInfo[];
   properties: string[];
   isExported: boolean;
+  doc?: DocInfo;
+}
+
+export interface MethodInfo extends SignatureInfo {
+  name: string;
+  isAsync: boolean;
+  isStatic: boolean;
+  scope: 'public' | 'protected' | 'private';
+  doc?: DocInfo;
 }
 
 export interface InterfaceInfo {
   name?: string;
   properties: string[];
   isExported: boolean;
+  doc?: DocInfo;
+}
+
+export interface TypeAliasInfo {
+  name: string;
+  definition: string;         // 类型定义源码（= 右侧部分）
+  properties: string[];       // 对象字面量类型（含交叉类型中的字面量部分）的属性名
+  isExported: boolean;
+  doc?: DocInfo;
+}
+
+export interface EnumInfo {
+  name: string;
+  members: EnumMemberInfo[];
+  isConst: boolean;           // const enum
+  isExported: boolean;
+  doc?: DocInfo;
+}
+
+export interface EnumMemberInfo {
+  name: string;
+  value?: string;             // 初始化表达式源码（未显式赋值时为空）
 }
 
 /**
@@ -67,9 +175,33 @@ export interface ProjectMap {
   projectName: string;
   rootPath: string;
   totalFiles: number;
-  filesByRole: Record<FileRole, number>;
+  filesByRole: Record<string, number>;       // 内置角色及自定义角色的文件数
   files: FileAnalysis[];
   dependencyGraph: Record<string, string[]>;
+  renderGraph: Record<string, string[]>;      // 组件文件 -> 其 JSX 中渲染的组件文件
+  routes: RouteInfo[];                        // 路由表（react-router 路由定义与 Next.js 文件系统路由）
+  env: EnvInventory;                          // 环境变量清单
+  workspacePackages: WorkspacePackageInfo[];
+  packageGraph: Record<string, string[]>;     // 工作区包之间的依赖
+}
+
+/**
+ * 扫描选项
+ */
+export interface ScanOptions {
+  cache?: ScanCache;          // 扫描缓存（记录文件哈希）
+  incremental?: boolean;      // 仅重新分析变化的文件
+  concurrency?: number;       // 并行分析的线程数（1 为串行）
+}
+
+/**
+ * 扫描器配置
+ */
+export interface ProjectScannerOptions {
+  scopes?: string[];          // 扫描范围（相对根目录的子目录），为空时扫描整个项目
+  include?: string[];         // 扫描的文件模式，设置后不再自动检测目录结构
+  exclude?: string[];         // 额外排除的文件（gitignore 语法）
+  roleRules?: RoleRule[];     // 自定义角色规则（优先于内置识别逻辑）
 }
 
 /**
@@ -79,8 +211,18 @@ export interface ProjectMap {
 export class ProjectScanner {
   private project: Project;
   private fileAnalysisMap: Map<string, FileAnalysis> = new Map();
+  private ignoreMatcher?: IgnoreMatcher;
+  private moduleResolver: ModuleResolver;
+  private roleRuleMatcher: RoleRuleMatcher;
+  private scopes: string[];
 
-  constructor(private rootPath: string) {
+  /**
+   * @param rootPath 项目根目录（relativePath 均相对于此目录）
+   */
+  constructor(private rootPath: string, private options: ProjectScannerOptions = {}) {
+    this.scopes = options.scopes ?? [];
+    this.moduleResolver = new ModuleResolver(rootPath);
+    this.roleRuleMatcher = new RoleRuleMatcher(options.roleRules ?? []);
     const tsConfigPath = path.join(rootPath, 'tsconfig.json');
     const hasTsConfig = fs.existsSync(tsConfigPath);
     
@@ -102,112 +244,199 @@ export class ProjectScanner {
    * 扫描指定模式的文件
    */
   async scanFiles(patterns?: string[]): Promise<SourceFile[]> {
+    const files = await this.listFiles(patterns);
+    return files.map(filePath => this.getSourceFile(filePath));
+  }
+
+  /**
+   * 列出需要分析的文件（不解析）
+   */
+  async listFiles(patterns?: string[]): Promise<string[]> {
     // 如果没有指定模式，自动检测项目结构
     if (!patterns) {
       patterns = await this.detectProjectStructure();
     }
 
-    const files = await globby(patterns, {
+    const matchedFiles = await globby(patterns, {
       cwd: this.rootPath,
-      ignore: [
-        '**/node_modules/**',
-        '**/dist/**',
-        '**/build/**',
-        '**/.next/**',
-        '**/.nuxt/**',
-        '**/out/**',
-        '**/*.d.ts',
-        '**/*.spec.*',
-        '**/*.test.*',
-        '**/*.min.js',
-        '**/coverage/**',
-        '**/.git/**',
-      ],
+      ignore: PRUNED_GLOBS,
       absolute: true,
       onlyFiles: true,
       deep: 10, // 限制深度
     });
 
-    // 批量添加文件，避免一次性加载太多
+    // 应用内置规则、配置中的 exclude 和 .ai-pilot-ignore
+    const ignoreMatcher = await this.getIgnoreMatcher();
+    const files = ignoreMatcher.filter(matchedFiles).filter(file => this.isInScope(file)).sort();
+
     console.log(`找到 ${files.length} 个文件，开始解析...`);
     
     if (files.length > 5000) {
       console.warn(`⚠️  文件数量过多 (${files.length})，建议使用 --path 参数聚焦特定目录`);
     }
     
-    return files.map(filePath => this.project.addSourceFileAtPath(filePath));
+    return files;
   }
 
   /**
-   * 自动检测项目结构
+   * 列出被内置规则排除的测试文件（配置中的 exclude 与 .ai-pilot-ignore 仍然生效）
    */
-  private async detectProjectStructure(): Promise<string[]> {
-    const fs = await import('fs');
-    const possiblePatterns = [
-      // Monorepo 结构
-      'apps/*/src/**/*.{ts,tsx,js,jsx}',
-      'packages/*/src/**/*.{ts,tsx,js,jsx}',
-      'apps/**/*.{ts,tsx,js,jsx}',
-      'packages/**/*.{ts,tsx,js,jsx}',
-      // 普通项目结构
-      'src/**/*.{ts,tsx,js,jsx}',
-      // 根目录直接有代码文件
-      '*.{ts,tsx,js,jsx}',
-    ];
+  async listTestFiles(): Promise<string[]> {
+    const patterns = [...await this.detectProjectStructure(), '**/*.{test,spec}.{ts,tsx,js,jsx}'];
+    const matchedFiles = await globby(patterns, {
+      cwd: this.rootPath,
+      ignore: PRUNED_GLOBS,
+      absolute: true,
+      onlyFiles: true,
+      deep: 10,
+    });
+
+    const ignoreMatcher = await IgnoreMatcher.load(this.rootPath, this.options.exclude, true);
+    const projectMatcher = await this.getIgnoreMatcher();
+    return ignoreMatcher.filter(matchedFiles)
+      .filter(file => projectMatcher.isIgnored(file) && this.isInScope(file))
+      .sort();
+  }
+
+  /**
+   * 提取单个文件的导入信息（不做完整分析）
+   */
+  getImports(filePath: string): ImportInfo[] {
+    return this.extractImports(this.getSourceFile(filePath), filePath);
+  }
+
+  /**
+   * 获取文件的 AST（按需解析）
+   */
+  getSourceFile(filePath: string): SourceFile {
+    return loadSourceFile(this.project, filePath);
+  }
+
+  /**
+   * 判断单个文件的角色（与 scan 使用相同的识别逻辑，含自定义角色规则）
+   */
+  getFileRole(filePath: string): FileRole | string {
+    const sourceFile = this.getSourceFile(filePath);
+    return this.determineFileRole(
+      sourceFile,
+      this.extractExportedNames(sourceFile),
+      this.extractFunctions(sourceFile),
+      this.extractImports(sourceFile, filePath)
+    );
+  }
+
+  /**
+   * 释放文件的 AST
+   */
+  releaseSourceFile(sourceFile: SourceFile): void {
+    this.project.removeSourceFile(sourceFile);
+  }
+
+  /**
+   * 获取忽略规则匹配器（首次使用时加载）
+   */
+  private async getIgnoreMatcher(): Promise<IgnoreMatcher> {
+    if (!this.ignoreMatcher) {
+      this.ignoreMatcher = await IgnoreMatcher.load(this.rootPath, this.options.exclude);
+    }
+    return this.ignoreMatcher;
+  }
+
+  /**
+   * 获取扫描模式（配置了 include 时直接使用，否则自动检测项目结构）
+   */
+  async detectProjectStructure(): Promise<string[]> {
+    if (this.options.include?.length) {
+      return this.options.include;
+    }
+
+    // 指定了扫描范围时，分别检测每个范围目录的结构
+    if (this.scopes.length > 0) {
+      return this.scopes.flatMap(scope => this.detectPatternsIn(scope));
+    }
+    return this.detectPatternsIn('');
+  }
+
+  /**
+   * 判断文件是否位于扫描范围内（未指定范围时始终为 true）
+   */
+  private isInScope(filePath: string): boolean {
+    if (this.scopes.length === 0) return true;
+    const relativePath = path.relative(this.rootPath, filePath);
+    return this.scopes.some(scope => {
+      const scopePath = path.normalize(scope).replace(/[\\/]+$/, '');
+      return relativePath === scopePath || relativePath.startsWith(scopePath + path.sep);
+    });
+  }
+
+  /**
+   * 检测目录结构并生成匹配模式（模式相对于项目根目录）
+   */
+  private detectPatternsIn(baseDir: string): string[] {
+    const prefix = baseDir ? `${baseDir.split(path.sep).join('/').replace(/\/+$/, '')}/` : '';
+    const baseDirPath = path.join(this.rootPath, baseDir);
 
     // 检测是否为 monorepo
-    const hasApps = fs.existsSync(path.join(this.rootPath, 'apps'));
-    const hasPackages = fs.existsSync(path.join(this.rootPath, 'packages'));
-    const hasSrc = fs.existsSync(path.join(this.rootPath, 'src'));
+    const hasApps = fs.existsSync(path.join(baseDirPath, 'apps'));
+    const hasPackages = fs.existsSync(path.join(baseDirPath, 'packages'));
+    const hasSrc = fs.existsSync(path.join(baseDirPath, 'src'));
 
     if (hasApps || hasPackages) {
       // Monorepo 项目
       const patterns = [];
       if (hasApps) {
-        patterns.push('apps/*/src/**/*.{ts,tsx,js,jsx}');
-        patterns.push('apps/**/*.{ts,tsx,js,jsx}');
+        patterns.push(`${prefix}apps/*/src/**/*.{ts,tsx,js,jsx,vue}`);
+        patterns.push(`${prefix}apps/**/*.{ts,tsx,js,jsx,vue}`);
       }
       if (hasPackages) {
-        patterns.push('packages/*/src/**/*.{ts,tsx,js,jsx}');
-        patterns.push('packages/**/*.{ts,tsx,js,jsx}');
+        patterns.push(`${prefix}packages/*/src/**/*.{ts,tsx,js,jsx,vue}`);
+        patterns.push(`${prefix}packages/**/*.{ts,tsx,js,jsx,vue}`);
       }
       return patterns;
     } else if (hasSrc) {
       // 普通项目
-      return ['src/**/*.{ts,tsx,js,jsx}'];
+      return [`${prefix}src/**/*.{ts,tsx,js,jsx,vue}`];
     } else {
       // 根目录查找
-      return ['**/*.{ts,tsx,js,jsx}'];
+      return [`${prefix}**/*.{ts,tsx,js,jsx,vue}`];
     }
   }
 
   /**
    * 扫描并生成项目逻辑地图
+   * 传入缓存时记录文件哈希；incremental 为 true 时仅重新分析变化的文件
    */
-  async generateProjectMap(): Promise<ProjectMap> {
-    const sourceFiles = await this.scanFiles();
-    const fileAnalyses: FileAnalysis[] = [];
-
-    // 第一轮：分析所有文件
-    for (const sourceFile of sourceFiles) {
-      const analysis = this.analyzeFile(sourceFile);
-      fileAnalyses.push(analysis);
+  async generateProjectMap(options: ScanOptions = {}): Promise<ProjectMap> {
+    const filePaths = await this.listFiles();
+    const concurrency = options.concurrency ?? 1;
+    const fileAnalyses = options.cache
+      ? await this.analyzeWithCache(filePaths, options.cache, options.incremental ?? false, concurrency)
+      : await this.analyzeFiles(filePaths, concurrency);
+
+    this.resolveBarrelImports(fileAnalyses);
+    fileAnalyses.forEach(analysis => {
       this.fileAnalysisMap.set(analysis.filePath, analysis);
-    }
+    });
 
     // 统计文件角色分布
-    const filesByRole: Record<FileRole, number> = {
+    const filesByRole: Record<string, number> = {
       [FileRole.COMPONENT]: 0,
+      [FileRole.PAGE]: 0,
+      [FileRole.ROUTE]: 0,
+      [FileRole.STORE]: 0,
+      [FileRole.CONTEXT]: 0,
       [FileRole.HOOK]: 0,
       [FileRole.UTILITY]: 0,
       [FileRole.SERVICE]: 0,
       [FileRole.TYPE]: 0,
       [FileRole.CONFIG]: 0,
+      [FileRole.TEST]: 0,
+      [FileRole.STYLE]: 0,
       [FileRole.UNKNOWN]: 0,
     };
 
     fileAnalyses.forEach(analysis => {
-      filesByRole[analysis.role]++;
+      filesByRole[analysis.role] = (filesByRole[analysis.role] ?? 0) + 1;
     });
 
     // 构建依赖图
@@ -216,6 +445,41 @@ export class ProjectScanner {
       dependencyGraph[analysis.relativePath] = analysis.dependencies;
     });
 
+    // 构建组件渲染层级图
+    const renderGraph: Record<string, string[]> = {};
+    fileAnalyses.forEach(analysis => {
+      const children = [...new Set(analysis.renders.map(render => render.file).filter((file): file is string => !!file))];
+      if (children.length > 0) {
+        renderGraph[analysis.relativePath] = children;
+      }
+    });
+
+    // 汇总路由表（Next.js 项目额外生成 pages/、app/ 文件系统路由）
+    const routes = [
+      ...fileAnalyses.flatMap(analysis => analysis.routes),
+      ...(this.isNextProject(fileAnalyses) ? buildFileSystemRoutes(fileAnalyses) : []),
+    ];
+
+    // 环境变量清单（与 .env 示例文件交叉比对）
+    const env = buildEnvInventory(fileAnalyses, await this.readEnvExamples());
+
+    // 构建工作区包依赖图
+    const packageGraph: Record<string, string[]> = {};
+    fileAnalyses.forEach(analysis => {
+      analysis.imports.forEach(imp => {
+        if (!analysis.packageName || !imp.workspacePackage) return;
+        const targets = packageGraph[analysis.packageName] ??= [];
+        if (!targets.includes(imp.workspacePackage)) {
+          targets.push(imp.workspacePackage);
+        }
+      });
+    });
+
+    const workspacePackages = this.moduleResolver.getWorkspace().getPackages().map(pkg => ({
+      name: pkg.name,
+      path: path.relative(this.rootPath, pkg.dir),
+    })).sort((a, b) => a.path.localeCompare(b.path));
+
     return {
       projectName: path.basename(this.rootPath),
       rootPath: this.rootPath,
@@ -223,9 +487,69 @@ export class ProjectScanner {
       filesByRole,
       files: fileAnalyses,
       dependencyGraph,
+      renderGraph,
+      routes,
+      env,
+      workspacePackages,
+      packageGraph,
     };
   }
 
+  /**
+   * 分析文件列表（文件足够多时使用工作线程并行分析）
+   */
+  private async analyzeFiles(filePaths: string[], concurrency: number): Promise<FileAnalysis[]> {
+    if (concurrency > 1 && filePaths.length >= PARALLEL_THRESHOLD) {
+      console.log(`⚡ 使用 ${concurrency} 个工作线程并行分析 ${filePaths.length} 个文件`);
+      return analyzeInParallel(this.rootPath, filePaths, concurrency, this.options);
+    }
+
+    // 先加载全部文件再分析，避免每个文件都触发类型检查器重建（与工作线程一致）
+    const sourceFiles = filePaths.map(filePath => this.getSourceFile(filePath));
+    return sourceFiles.map(sourceFile => this.analyzeFile(sourceFile));
+  }
+
+  /**
+   * 结合缓存分析文件
+   */
+  private async analyzeWithCache(
+    filePaths: string[],
+    cache: ScanCache,
+    incremental: boolean,
+    concurrency: number
+  ): Promise<FileAnalysis[]> {
+    const hashes = new Map<string, string>();
+    for (const filePath of filePaths) {
+      const content = await fs.promises.readFile(filePath, 'utf-8');
+      hashes.set(path.relative(this.rootPath, filePath), ScanCache.hashContent(content));
+    }
+
+    const plan = cache.plan(hashes);
+    if (incremental) {
+      console.log(`♻️  增量扫描: 复用 ${plan.reused.length} 个，重新分析 ${plan.changed.length} 个，移除 ${plan.removed.length} 个`);
+    }
+
+    // 非增量模式下全部重新分析，仅借助缓存记录哈希
+    const reused = new Set(incremental ? plan.reused : []);
+    cache.remove(plan.removed);
+
+    const pending = filePaths.filter(filePath => !reused.has(path.relative(this.rootPath, filePath)));
+    const analyzed = new Map<string, FileAnalysis>();
+    (await this.analyzeFiles(pending, concurrency)).forEach(analysis => {
+      analyzed.set(analysis.filePath, analysis);
+      cache.setAnalysis(analysis.relativePath, hashes.get(analysis.relativePath)!, analysis);
+    });
+
+    return filePaths.map(filePath => {
+      const relativePath = path.relative(this.rootPath, filePath);
+      if (reused.has(relativePath)) {
+        cache.markFresh(relativePath);
+        return cache.get(relativePath)!.analysis;
+      }
+      return analyzed.get(filePath)!;
+    });
+  }
+
   /**
    * 分析文件结构
    */
@@ -237,10 +561,18 @@ export class ProjectScanner {
     const functions = this.extractFunctions(sourceFile);
     const classes = this.extractClasses(sourceFile);
     const interfaces = this.extractInterfaces(sourceFile);
+    const typeAliases = this.extractTypeAliases(sourceFile);
+    const enums = this.extractEnums(sourceFile);
     const exportedNames = this.extractExportedNames(sourceFile);
 
+    // 本地导入解析为相对路径（第三方模块返回 undefined）
+    const resolveLocalImport = (moduleSpecifier: string) => {
+      const imp = imports.find(i => i.moduleSpecifier === moduleSpecifier && !i.reExport);
+      return imp?.isLocal && imp.resolvedPath ? path.relative(this.rootPath, imp.resolvedPath) : undefined;
+    };
+
     // 判断文件角色
-    const role = this.determineFileRole(sourceFile, exportedNames, functions);
+    const role = this.determineFileRole(sourceFile, exportedNames, functions, imports);
 
     // 提取本地依赖
     const dependencies = imports
@@ -251,12 +583,22 @@ export class ProjectScanner {
       filePath,
       relativePath,
       role,
+      packageName: this.moduleResolver.getWorkspace().getPackageForFile(filePath)?.name,
       exports: exportedNames,
       dependencies,
       imports,
       functions,
       classes,
       interfaces,
+      typeAliases,
+      enums,
+      components: extractComponents(sourceFile, fn => this.checkReturnsJSX(fn)),
+      renders: extractRenders(sourceFile, imports, this.rootPath),
+      hooks: extractHookUsage(sourceFile, relativePath, resolveLocalImport),
+      routes: extractRoutes(sourceFile, relativePath, resolveLocalImport),
+      apiCalls: extractApiCalls(sourceFile),
+      envVars: extractEnvUsage(sourceFile),
+      vueMacros: filePath.endsWith('.vue') ? extractVueMacros(sourceFile) : undefined,
     };
   }
 
@@ -264,42 +606,161 @@ export class ProjectScanner {
    * 提取导入信息
    */
   private extractImports(sourceFile: SourceFile, currentFilePath: string): ImportInfo[] {
-    return sourceFile.getImportDeclarations().map(imp => {
-      const moduleSpecifier = imp.getModuleSpecifierValue();
-      const isLocal = moduleSpecifier.startsWith('.') || moduleSpecifier.startsWith('/');
-      
-      let resolvedPath: string | undefined;
-      if (isLocal) {
-        const currentDir = path.dirname(currentFilePath);
-        resolvedPath = this.resolveLocalImport(currentDir, moduleSpecifier);
-      }
+    const workspace = this.moduleResolver.getWorkspace();
+    const currentPackage = workspace.getPackageForFile(currentFilePath)?.name;
+
+    const createImportInfo = (moduleSpecifier: string, line: number, kind: ImportKind = 'static'): ImportInfo => {
+      const { isLocal, resolvedPath, packageName } = this.moduleResolver.resolve(moduleSpecifier, currentFilePath);
+
+      // 标记跨包导入（包名导入或别名/相对路径指向其他包）
+      const targetPackage = packageName ?? (resolvedPath ? workspace.getPackageForFile(resolvedPath)?.name : undefined);
 
       return {
         moduleSpecifier,
-        namedImports: imp.getNamedImports().map(n => n.getName()),
-        defaultImport: imp.getDefaultImport()?.getText(),
+        kind,
+        line,
+        namedImports: [],
         isLocal,
         resolvedPath,
+        workspacePackage: targetPackage && targetPackage !== currentPackage ? targetPackage : undefined,
+      };
+    };
+
+    const imports = sourceFile.getImportDeclarations().map(imp => {
+      const namedImports = imp.getNamedImports();
+      const isTypeOnly = imp.isTypeOnly() || (namedImports.length > 0 && namedImports.every(n => n.isTypeOnly()) &&
+        !imp.getDefaultImport() && !imp.getNamespaceImport());
+      return {
+        ...createImportInfo(imp.getModuleSpecifierValue(), imp.getStartLineNumber()),
+        namedImports: namedImports.map(n => n.getName()),
+        defaultImport: imp.getDefaultImport()?.getText(),
+        isTypeOnly: isTypeOnly || undefined,
+      };
+    });
+
+    // 重导出同样是依赖（export * from / export { x } from）
+    const reExports = sourceFile.getExportDeclarations()
+      .filter(exp => exp.hasModuleSpecifier())
+      .map(exp => ({
+        ...createImportInfo(exp.getModuleSpecifierValue()!, exp.getStartLineNumber()),
+        namedImports: exp.getNamedExports().map(n => n.getName()),
+        isTypeOnly: exp.isTypeOnly() || undefined,
+        reExport: readReExport(exp),
+      }));
+
+    // 懒加载路由 import('./Page') 与 CommonJS require('./x')
+    const dynamicImports = findDynamicImports(sourceFile).map(dyn => ({
+      ...createImportInfo(dyn.moduleSpecifier, dyn.line, dyn.kind),
+      namedImports: dyn.namedImports,
+      defaultImport: dyn.defaultImport,
+    }));
+
+    return [...imports, ...reExports, ...dynamicImports];
+  }
+
+  /**
+   * 将经 barrel 文件的导入解析到实际定义符号的文件，并补充到依赖中
+   * 在所有文件分析完成后执行（需要 barrel 文件的重导出信息）
+   */
+  private resolveBarrelImports(fileAnalyses: FileAnalysis[]): void {
+    const byPath = new Map(fileAnalyses.map(analysis => [analysis.filePath, analysis]));
+
+    // 在 barrel 链中查找导出名的定义文件
+    const getModule = (filePath: string): BarrelModule | undefined => {
+      const analysis = byPath.get(filePath);
+      return analysis && {
+        exports: analysis.exports,
+        reExports: analysis.imports
+          .filter(imp => imp.reExport && imp.resolvedPath)
+          .map(imp => ({ resolvedPath: imp.resolvedPath!, reExport: imp.reExport! })),
       };
+    };
+    const findSource = (filePath: string, name: string) => findSymbolSource(filePath, name, getModule);
+
+    fileAnalyses.forEach(analysis => {
+      const dependencies = new Set<string>();
+
+      analysis.imports.forEach(imp => {
+        delete imp.symbolSources;
+        if (!imp.isLocal || !imp.resolvedPath) return;
+        dependencies.add(path.relative(this.rootPath, imp.resolvedPath));
+        if (imp.reExport) return;
+
+        const names = imp.defaultImport ? [...imp.namedImports, 'default'] : imp.namedImports;
+        names.forEach(name => {
+          const source = findSource(imp.resolvedPath!, name);
+          if (source && source !== imp.resolvedPath) {
+            const relativeSource = path.relative(this.rootPath, source);
+            (imp.symbolSources ??= {})[name] = relativeSource;
+            dependencies.add(relativeSource);
+          }
+        });
+      });
+
+      analysis.dependencies = [...dependencies];
+
+      // 经 barrel 导入的组件（含命名空间成员）指向实际定义文件
+      analysis.renders.forEach(render => {
+        const imp = analysis.imports.find(i => i.moduleSpecifier === render.moduleSpecifier && !i.reExport);
+        if (imp?.isLocal && imp.resolvedPath) {
+          const source = findSource(imp.resolvedPath, render.importName) ?? imp.resolvedPath;
+          render.file = path.relative(this.rootPath, source);
+        }
+      });
+
+      // 自定义 Hook 同样指向实际定义文件
+      analysis.hooks.flatMap(usage => usage.calls).forEach(call => {
+        const imp = analysis.imports.find(i => i.moduleSpecifier === call.moduleSpecifier && !i.reExport);
+        if (call.importName && imp?.isLocal && imp.resolvedPath) {
+          const source = findSource(imp.resolvedPath, call.importName) ?? imp.resolvedPath;
+          call.file = path.relative(this.rootPath, source);
+        }
+      });
+
+      // 路由的页面组件同样指向实际定义文件
+      analysis.routes.forEach(route => {
+        const imp = analysis.imports.find(i => i.moduleSpecifier === route.moduleSpecifier && !i.reExport);
+        if (route.importName && imp?.isLocal && imp.resolvedPath) {
+          const source = findSource(imp.resolvedPath, route.importName) ?? imp.resolvedPath;
+          route.componentFile = path.relative(this.rootPath, source);
+        }
+      });
     });
   }
 
   /**
-   * 解析本地导入路径
+   * 读取项目中的 .env 示例文件（.env.example、.env.local.example、.env.sample 等）
    */
-  private resolveLocalImport(currentDir: string, importPath: string): string {
-    let resolved = path.resolve(currentDir, importPath);
-    
-    // 尝试添加常见扩展名
-    const extensions = ['.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.tsx', '/index.js', '/index.jsx'];
-    for (const ext of extensions) {
-      const testPath = resolved + ext;
-      if (this.project.getSourceFile(testPath)) {
-        return testPath;
-      }
+  private async readEnvExamples(): Promise<Record<string, string[]>> {
+    const matchedFiles = await globby(['**/.env*'], {
+      cwd: this.rootPath,
+      ignore: PRUNED_GLOBS,
+      absolute: true,
+      onlyFiles: true,
+      dot: true,
+      deep: 5,
+    });
+
+    const ignoreMatcher = await this.getIgnoreMatcher();
+    const examples: Record<string, string[]> = {};
+    for (const filePath of ignoreMatcher.filter(matchedFiles).sort()) {
+      if (!/\.(example|sample|template|dist)(\.|$)/.test(path.basename(filePath))) continue;
+      const content = await fs.promises.readFile(filePath, 'utf-8');
+      examples[path.relative(this.rootPath, filePath)] = parseEnvExample(content);
     }
-    
-    return resolved;
+    return examples;
+  }
+
+  /**
+   * 是否为 Next.js 项目（导入了 next 模块，或根目录 / 工作区包中存在 next.config）
+   */
+  private isNextProject(fileAnalyses: FileAnalysis[]): boolean {
+    if (fileAnalyses.some(analysis => analysis.imports.some(imp => imp.moduleSpecifier === 'next' || imp.moduleSpecifier.startsWith('next/')))) {
+      return true;
+    }
+
+    const dirs = [this.rootPath, ...this.moduleResolver.getWorkspace().getPackages().map(pkg => pkg.dir)];
+    return dirs.some(dir => ['js', 'mjs', 'cjs', 'ts'].some(ext => fs.existsSync(path.join(dir, `next.config.${ext}`))));
   }
 
   /**
@@ -313,6 +774,18 @@ export class ProjectScanner {
       exportedNames.push(name);
     });
 
+    // CommonJS 导出
+    findCommonJsExports(sourceFile).forEach(name => {
+      if (!exportedNames.includes(name)) {
+        exportedNames.push(name);
+      }
+    });
+
+    // 单文件组件始终默认导出组件本身
+    if (sourceFile.getFilePath().endsWith('.vue') && !exportedNames.includes('default')) {
+      exportedNames.push('default');
+    }
+
     return exportedNames;
   }
 
@@ -326,10 +799,11 @@ export class ProjectScanner {
     sourceFile.getFunctions().forEach(fn => {
       functions.push({
         name: fn.getName(),
-        parameters: fn.getParameters().map(p => p.getName()),
+        ...extractSignature(fn),
         isAsync: fn.isAsync(),
         isExported: fn.isExported(),
         returnsJSX: this.checkReturnsJSX(fn),
+        doc: extractDoc(fn),
       });
     });
 
@@ -339,10 +813,11 @@ export class ProjectScanner {
       if (initializer && (Node.isArrowFunction(initializer) || Node.isFunctionExpression(initializer))) {
         functions.push({
           name: varDecl.getName(),
-          parameters: initializer.getParameters().map(p => p.getName()),
+          ...extractSignature(initializer),
           isAsync: Node.isArrowFunction(initializer) ? initializer.isAsync() : initializer.isAsync(),
           isExported: varDecl.isExported(),
           returnsJSX: this.checkReturnsJSX(initializer),
+          doc: extractDoc(varDecl),
         });
       }
     });
@@ -357,18 +832,14 @@ export class ProjectScanner {
     try {
       const returnStatements = fn.getDescendantsOfKind(SyntaxKind.ReturnStatement);
       for (const stmt of returnStatements) {
-        const expression = stmt.getExpression();
-        if (expression && Node.isJsxElement(expression) || Node.isJsxSelfClosingElement(expression) || Node.isJsxFragment(expression)) {
+        if (this.isJSX(stmt.getExpression())) {
           return true;
         }
       }
       
       // 检查箭头函数的直接返回
-      if (Node.isArrowFunction(fn)) {
-        const body = fn.getBody();
-        if (body && (Node.isJsxElement(body) || Node.isJsxSelfClosingElement(body) || Node.isJsxFragment(body))) {
-          return true;
-        }
+      if (Node.isArrowFunction(fn) && this.isJSX(fn.getBody())) {
+        return true;
       }
     } catch (error) {
       // 忽略错误
@@ -376,15 +847,33 @@ export class ProjectScanner {
     return false;
   }
 
+  /**
+   * 是否为 JSX 表达式（忽略外层括号，如 return (<div />)）
+   */
+  private isJSX(node: Node | undefined): boolean {
+    while (node && Node.isParenthesizedExpression(node)) {
+      node = node.getExpression();
+    }
+    return !!node && (Node.isJsxElement(node) || Node.isJsxSelfClosingElement(node) || Node.isJsxFragment(node));
+  }
+
   /**
    * 提取类信息
    */
   private extractClasses(sourceFile: SourceFile): ClassInfo[] {
     return sourceFile.getClasses().map(cls => ({
       name: cls.getName(),
-      methods: cls.getMethods().map(m => m.getName()),
+      methods: cls.getMethods().map(m => ({
+        name: m.getName(),
+        ...extractSignature(m),
+        isAsync: m.isAsync(),
+        isStatic: m.isStatic(),
+        scope: m.getScope(),
+        doc: extractDoc(m),
+      })),
       properties: cls.getProperties().map(p => p.getName()),
       isExported: cls.isExported(),
+      doc: extractDoc(cls),
     }));
   }
 
@@ -396,20 +885,128 @@ export class ProjectScanner {
       name: iface.getName(),
       properties: iface.getProperties().map(p => p.getName()),
       isExported: iface.isExported(),
+      doc: extractDoc(iface),
+    }));
+  }
+
+  /**
+   * 提取类型别名信息
+   */
+  private extractTypeAliases(sourceFile: SourceFile): TypeAliasInfo[] {
+    return sourceFile.getTypeAliases().map(typeAlias => {
+      const typeNode = typeAlias.getTypeNode();
+      const literals = Node.isIntersectionTypeNode(typeNode)
+        ? typeNode.getTypeNodes().filter(Node.isTypeLiteral)
+        : Node.isTypeLiteral(typeNode) ? [typeNode] : [];
+
+      return {
+        name: typeAlias.getName(),
+        definition: typeNode?.getText() ?? '',
+        properties: literals.flatMap(literal => literal.getProperties().map(p => p.getName())),
+        isExported: typeAlias.isExported(),
+        doc: extractDoc(typeAlias),
+      };
+    });
+  }
+
+  /**
+   * 提取枚举信息
+   */
+  private extractEnums(sourceFile: SourceFile): EnumInfo[] {
+    return sourceFile.getEnums().map(enumDecl => ({
+      name: enumDecl.getName(),
+      members: enumDecl.getMembers().map(member => ({
+        name: member.getName(),
+        value: member.getInitializer()?.getText(),
+      })),
+      isConst: enumDecl.isConstEnum(),
+      isExported: enumDecl.isExported(),
+      doc: extractDoc(enumDecl),
     }));
   }
 
   /**
    * 判断文件角色
    */
-  private determineFileRole(sourceFile: SourceFile, exportedNames: string[], functions: FunctionInfo[]): FileRole {
+  private determineFileRole(
+    sourceFile: SourceFile,
+    exportedNames: string[],
+    functions: FunctionInfo[],
+    imports: ImportInfo[]
+  ): FileRole | string {
     const fileName = path.basename(sourceFile.getFilePath());
+    const baseName = fileName.replace(/\.[^.]+$/, '');
+    const relativePath = path.relative(this.rootPath, sourceFile.getFilePath());
+    const segments = relativePath.split(path.sep).slice(0, -1);
+    const returnsJSX = functions.some(fn => fn.returnsJSX);
+    const calledNames = new Set(
+      sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)
+        .map(call => call.getExpression().getText().split('.').pop()!)
+    );
+
+    // 自定义规则优先
+    const customRole = this.roleRuleMatcher.match({
+      relativePath,
+      exports: exportedNames,
+      calledNames,
+      importedModules: imports.map(imp => imp.moduleSpecifier),
+      returnsJSX,
+    });
+    if (customRole) {
+      return customRole;
+    }
+
+    // 测试文件
+    if (/\.(test|spec)\.[^.]+$/.test(fileName) || segments.includes('__tests__')) {
+      return FileRole.TEST;
+    }
+
+    // 样式文件
+    const usesStyleLibrary = imports.some(imp => STYLE_LIBRARIES.includes(imp.moduleSpecifier));
+    if (/\.(styles?|css)$/.test(baseName) || baseName === 'styles' || (usesStyleLibrary && !returnsJSX)) {
+      return FileRole.STYLE;
+    }
 
     // 检查是否为配置文件
     if (fileName.includes('config') || fileName.includes('.config.')) {
       return FileRole.CONFIG;
     }
 
+    // 路由：Next.js API 路由、app/ 下的 route 处理器、路由配置文件
+    const pagesIndex = segments.lastIndexOf('pages');
+    if ((pagesIndex >= 0 && segments[pagesIndex + 1] === 'api') ||
+        (segments.includes('app') && baseName === 'route') ||
+        /^(routes|router)$/i.test(baseName) ||
+        ROUTER_FACTORIES.some(name => calledNames.has(name))) {
+      return FileRole.ROUTE;
+    }
+
+    // 页面：Next.js app/ 约定文件、pages/ 或 views/ 目录下的组件（排除其中的 components 子目录）
+    const inPageDir = (pagesIndex >= 0 || segments.includes('views')) && !segments.includes('components');
+    if ((segments.includes('app') && APP_PAGE_FILES.includes(baseName)) ||
+        (inPageDir && (returnsJSX || fileName.endsWith('.vue')))) {
+      return FileRole.PAGE;
+    }
+
+    // Vue 单文件组件
+    if (fileName.endsWith('.vue')) {
+      return FileRole.COMPONENT;
+    }
+
+    // Store：调用状态管理库的工厂函数（createSlice、create、defineStore、atom 等）
+    const storeFactories = imports
+      .filter(imp => STORE_LIBRARIES.some(lib => imp.moduleSpecifier === lib || imp.moduleSpecifier.startsWith(lib + '/')))
+      .flatMap(imp => imp.defaultImport ? [...imp.namedImports, imp.defaultImport] : imp.namedImports)
+      .filter(name => STORE_FACTORIES.includes(name));
+    if (storeFactories.some(name => calledNames.has(name))) {
+      return FileRole.STORE;
+    }
+
+    // Context：createContext 及其 Provider
+    if (calledNames.has('createContext')) {
+      return FileRole.CONTEXT;
+    }
+
     // 检查导出的名称
     for (const name of exportedNames) {
       // Hook: 以 use 开头的导出
@@ -434,7 +1031,8 @@ export class ProjectScanner {
 
     // 检查是否只有类型定义
     const hasOnlyTypes = sourceFile.getInterfaces().length > 0 || 
-                        sourceFile.getTypeAliases().length > 0;
+                        sourceFile.getTypeAliases().length > 0 ||
+                        sourceFile.getEnums().length > 0;
     const hasNoLogic = functions.length === 0 && sourceFile.getClasses().length === 0;
     if (hasOnlyTypes && hasNoLogic) {
       return FileRole.TYPE;
@@ -0,0 +1,64 @@
+import { Node, Type, ts, ArrowFunction, FunctionDeclaration, FunctionExpression, MethodDeclaration } from 'ts-morph';
+
+/**
+ * 参数信息
+ */
+export interface ParameterInfo {
+  name: string;               // 参数名（解构参数为解构模式源码）
+  type: string;               // 声明的类型，未声明时为推断结果
+  optional: boolean;          // 可选参数（? 或带默认值）
+  defaultValue?: string;      // 默认值源码
+  isRest: boolean;            // 剩余参数 ...args
+}
+
+/**
+ * 函数签名
+ */
+export interface SignatureInfo {
+  parameters: ParameterInfo[];
+  typeParameters: string[];   // 泛型参数源码（含约束和默认值，如 T extends object）
+  returnType: string;         // 声明的返回类型，未声明时为推断结果
+}
+
+type FunctionLikeNode = FunctionDeclaration | FunctionExpression | ArrowFunction | MethodDeclaration;
+
+/**
+ * 提取函数签名（类型以源码声明为准，未声明时使用类型检查器推断）
+ */
+export function extractSignature(node: FunctionLikeNode): SignatureInfo {
+  return {
+    parameters: node.getParameters().map(param => {
+      const initializer = param.getInitializer();
+      return {
+        name: param.getName(),
+        type: param.getTypeNode()?.getText() ?? getTypeText(param.getType(), param),
+        optional: param.hasQuestionToken() || initializer !== undefined,
+        defaultValue: initializer?.getText(),
+        isRest: param.isRestParameter(),
+      };
+    }),
+    typeParameters: node.getTypeParameters().map(tp => tp.getText()),
+    returnType: node.getReturnTypeNode()?.getText() ?? getTypeText(node.getReturnType(), node),
+  };
+}
+
+/**
+ * 格式化为单行签名，如 fetchUser<T>(id: string, force?: boolean): Promise<T>
+ */
+export function formatSignature(name: string, signature: SignatureInfo): string {
+  const typeParameters = signature.typeParameters.length > 0 ? `<${signature.typeParameters.join(', ')}>` : '';
+  const parameters = signature.parameters.map(param => {
+    const prefix = param.isRest ? '...' : '';
+    const optional = param.optional && param.defaultValue === undefined && !param.isRest ? '?' : '';
+    const defaultValue = param.defaultValue !== undefined ? ` = ${param.defaultValue}` : '';
+    return `${prefix}${param.name}${optional}: ${param.type}${defaultValue}`;
+  });
+  return `${name}${typeParameters}(${parameters.join(', ')}): ${signature.returnType}`;
+}
+
+/**
+ * 推断类型的文本（使用作用域内的类型别名，避免 import("...") 形式的绝对路径）
+ */
+function getTypeText(type: Type, enclosingNode: Node): string {
+  return type.getText(enclosingNode, ts.TypeFormatFlags.UseAliasDefinedOutsideCurrentScope);
+}
@@ -0,0 +1,21 @@
+import { Project, SourceFile } from 'ts-morph';
+import fs from 'fs';
+import { extractVueScript } from './vue-sfc.js';
+
+/**
+ * 将文件加载到 ts-morph 项目中（已加载时直接复用）
+ * .vue 文件只解析 <script> 部分，以原路径创建虚拟源文件
+ */
+export function loadSourceFile(project: Project, filePath: string): SourceFile {
+  const existing = project.getSourceFile(filePath);
+  if (existing) {
+    return existing;
+  }
+
+  if (filePath.endsWith('.vue')) {
+    const { code, scriptKind } = extractVueScript(fs.readFileSync(filePath, 'utf-8'));
+    return project.createSourceFile(filePath, code, { scriptKind, overwrite: true });
+  }
+
+  return project.addSourceFileAtPath(filePath);
+}
@@ -2,6 +2,15 @@ import { Project, SourceFile, SyntaxKind } from 'ts-morph';
 import path from 'path';
 import fs from 'fs';
 import fse from 'fs-extra';
+import { IgnoreMatcher, PRUNED_GLOBS } from './ignore.js';
+import { ModuleResolver } from './module-resolver.js';
+import { findDynamicImports, ImportKind } from './dynamic-imports.js';
+import { loadSourceFile } from './source-loader.js';
+import { DEFAULT_TRACE_DEPTH, RoleRule } from './config.js';
+import { extractDoc, DocInfo } from './doc-comments.js';
+import { extractHookUsage, HookUsage } from './hook-usage.js';
+import { findSymbolSource, readReExport, BarrelModule } from './barrel.js';
+import { ProjectScanner, FileRole } from './scanner.js';
 
 /**
  * 依赖信息
@@ -9,8 +18,11 @@ import fse from 'fs-extra';
 export interface DependencyInfo {
   filePath: string;
   relativePath: string;
-  type: 'component' | 'hook' | 'util' | 'service' | 'type' | 'other';
+  type: FileRole | string; // 文件角色（与 scan 相同，含自定义角色）
   imports: string[]; // 从该文件导入的内容
+  packageName?: string; // 所属工作区包（跨包依赖时）
+  viaBarrel?: string; // 经由 barrel 文件导入时的 barrel 路径
+  kind: ImportKind; // 导入方式（静态 import / 动态 import() / require）
 }
 
 /**
@@ -21,6 +33,8 @@ export interface DependentInfo {
   relativePath: string;
   importedItems: string[]; // 从目标文件导入了什么
   usageCount: number; // 使用次数
+  viaBarrel?: string; // 经由 barrel 文件导入时的 barrel 路径
+  hookUsage: HookUsage[]; // 调用了目标文件中 Hook 的函数
 }
 
 /**
@@ -32,12 +46,33 @@ export interface ImpactAnalysis {
   exports: ExportedItem[];
   dependencies: DependencyInfo[]; // 下游：该文件依赖的文件
   dependents: DependentInfo[]; // 上游：依赖该文件的文件
+  hookUsage: HookUsage[]; // 该文件中各函数调用的 Hook
 }
 
 export interface ExportedItem {
   name: string;
-  type: 'function' | 'class' | 'interface' | 'type' | 'const' | 'default';
+  type: 'function' | 'class' | 'interface' | 'type' | 'enum' | 'const' | 'default';
   isUsedExternally: boolean; // 是否被其他文件使用
+  doc?: DocInfo;
+}
+
+/**
+ * 文件中对其他模块的引用（import、重导出、import()、require）
+ */
+interface ModuleReference {
+  moduleSpecifier: string;
+  kind: ImportKind;
+  names: string[];            // 引用的内容（用于展示）
+  symbols: string[];          // 从目标模块取用的导出名（用于 barrel 解析）
+}
+
+/**
+ * 依赖追踪器配置
+ */
+export interface DependencyTracerOptions {
+  maxDepth?: number;          // 下游依赖的递归深度
+  exclude?: string[];         // 额外排除的文件（gitignore 语法）
+  roleRules?: RoleRule[];     // 自定义角色规则（与 scan 一致）
 }
 
 /**
@@ -47,9 +82,14 @@ export class DependencyTracer {
   private project: Project;
   private rootPath: string;
   private visited = new Set<string>();
+  private moduleResolver: ModuleResolver;
+  private roleScanner: ProjectScanner;
+  private fileRoles = new Map<string, FileRole | string>();
 
-  constructor(rootPath: string) {
+  constructor(rootPath: string, private options: DependencyTracerOptions = {}) {
     this.rootPath = rootPath;
+    this.moduleResolver = new ModuleResolver(rootPath);
+    this.roleScanner = new ProjectScanner(rootPath, { roleRules: options.roleRules });
     const tsConfigPath = path.join(rootPath, 'tsconfig.json');
     const hasTsConfig = fs.existsSync(tsConfigPath);
     
@@ -78,7 +118,7 @@ export class DependencyTracer {
     }
 
     // 添加目标文件
-    const sourceFile = this.project.addSourceFileAtPath(absolutePath);
+    const sourceFile = loadSourceFile(this.project, absolutePath);
     const relativePath = path.relative(this.rootPath, absolutePath);
 
     // 提取导出项
@@ -86,7 +126,7 @@ export class DependencyTracer {
 
     // 分析下游依赖
     this.visited.clear();
-    const dependencies = this.analyzeDependencies(sourceFile);
+    const dependencies = this.mergeDependencies(this.analyzeDependencies(sourceFile, 0, this.options.maxDepth));
 
     // 分析上游依赖者
     const dependents = await this.analyzeDependents(absolutePath);
@@ -97,6 +137,7 @@ export class DependencyTracer {
       exports,
       dependencies,
       dependents,
+      hookUsage: this.extractHookUsage(sourceFile),
     };
   }
 
@@ -113,6 +154,7 @@ export class DependencyTracer {
           name: func.getName() || 'anonymous',
           type: 'function',
           isUsedExternally: false, // 稍后更新
+          doc: extractDoc(func),
         });
       }
     });
@@ -124,6 +166,7 @@ export class DependencyTracer {
           name: cls.getName() || 'anonymous',
           type: 'class',
           isUsedExternally: false,
+          doc: extractDoc(cls),
         });
       }
     });
@@ -135,6 +178,7 @@ export class DependencyTracer {
           name: iface.getName(),
           type: 'interface',
           isUsedExternally: false,
+          doc: extractDoc(iface),
         });
       }
     });
@@ -146,6 +190,19 @@ export class DependencyTracer {
           name: typeAlias.getName(),
           type: 'type',
           isUsedExternally: false,
+          doc: extractDoc(typeAlias),
+        });
+      }
+    });
+
+    // 导出的枚举
+    sourceFile.getEnums().forEach(enumDecl => {
+      if (enumDecl.isExported()) {
+        exports.push({
+          name: enumDecl.getName(),
+          type: 'enum',
+          isUsedExternally: false,
+          doc: extractDoc(enumDecl),
         });
       }
     });
@@ -158,6 +215,7 @@ export class DependencyTracer {
             name: decl.getName(),
             type: 'const',
             isUsedExternally: false,
+            doc: extractDoc(decl),
           });
         });
       }
@@ -179,7 +237,7 @@ export class DependencyTracer {
   /**
    * 分析下游依赖（该文件引用了哪些文件）
    */
-  private analyzeDependencies(sourceFile: SourceFile, depth: number = 0, maxDepth: number = 3): DependencyInfo[] {
+  private analyzeDependencies(sourceFile: SourceFile, depth: number = 0, maxDepth: number = DEFAULT_TRACE_DEPTH): DependencyInfo[] {
     if (depth > maxDepth) return [];
 
     const filePath = sourceFile.getFilePath();
@@ -188,42 +246,45 @@ export class DependencyTracer {
 
     const dependencies: DependencyInfo[] = [];
 
-    sourceFile.getImportDeclarations().forEach(importDecl => {
-      const moduleSpecifier = importDecl.getModuleSpecifierValue();
-      
-      // 只处理本地文件
-      if (!moduleSpecifier.startsWith('.') && !moduleSpecifier.startsWith('/')) {
-        return;
-      }
-
-      const resolvedPath = this.resolveImportPath(path.dirname(filePath), moduleSpecifier);
+    this.getModuleReferences(sourceFile).forEach(ref => {
+      // 只处理本地文件（含路径别名）
+      const resolvedPath = this.resolveImportPath(filePath, ref.moduleSpecifier);
       if (!resolvedPath || !resolvedPath.includes(this.rootPath)) {
         return;
       }
 
       const relativePath = path.relative(this.rootPath, resolvedPath);
-      const type = this.determineFileType(resolvedPath);
-
-      // 提取导入项
-      const imports: string[] = [];
-      const defaultImport = importDecl.getDefaultImport();
-      if (defaultImport) {
-        imports.push(defaultImport.getText());
-      }
-      importDecl.getNamedImports().forEach(named => {
-        imports.push(named.getName());
+      const currentPackage = this.moduleResolver.getWorkspace().getPackageForFile(filePath)?.name;
+      const createDependency = (depPath: string, imports: string[], viaBarrel?: string): DependencyInfo => {
+        const targetPackage = this.moduleResolver.getWorkspace().getPackageForFile(depPath)?.name;
+        return {
+          filePath: depPath,
+          relativePath: path.relative(this.rootPath, depPath),
+          type: this.getFileRole(depPath),
+          imports,
+          packageName: targetPackage !== currentPackage ? targetPackage : undefined,
+          viaBarrel,
+          kind: ref.kind,
+        };
+      };
+
+      dependencies.push(createDependency(resolvedPath, ref.names));
+
+      // 经 barrel 导入时，补充实际定义符号的文件
+      const sources = new Map<string, string[]>();
+      ref.symbols.forEach(name => {
+        const source = this.findSymbolSource(resolvedPath, name);
+        if (source && source !== resolvedPath) {
+          sources.set(source, [...(sources.get(source) ?? []), name]);
+        }
       });
-
-      dependencies.push({
-        filePath: resolvedPath,
-        relativePath,
-        type,
-        imports,
+      sources.forEach((names, source) => {
+        dependencies.push(createDependency(source, names, relativePath));
       });
 
       // 递归分析依赖的依赖
       if (depth < maxDepth) {
-        const depSourceFile = this.project.addSourceFileAtPath(resolvedPath);
+        const depSourceFile = loadSourceFile(this.project, resolvedPath);
         const subDeps = this.analyzeDependencies(depSourceFile, depth + 1, maxDepth);
         dependencies.push(...subDeps);
       }
@@ -232,55 +293,92 @@ export class DependencyTracer {
     return dependencies;
   }
 
+  /**
+   * 合并同一文件的依赖项（直接导入、经 barrel 导入和递归结果可能重复）
+   */
+  private mergeDependencies(dependencies: DependencyInfo[]): DependencyInfo[] {
+    const merged = new Map<string, DependencyInfo>();
+    dependencies.forEach(dep => {
+      const existing = merged.get(dep.filePath);
+      if (!existing) {
+        merged.set(dep.filePath, { ...dep, imports: [...dep.imports] });
+        return;
+      }
+      dep.imports.forEach(name => {
+        if (!existing.imports.includes(name)) existing.imports.push(name);
+      });
+      existing.viaBarrel ??= dep.viaBarrel;
+    });
+    return [...merged.values()];
+  }
+
   /**
    * 分析上游依赖者（哪些文件引用了该文件）
    */
   private async analyzeDependents(targetPath: string): Promise<DependentInfo[]> {
     const dependents: DependentInfo[] = [];
     
-    // 扫描项目中所有源文件
-    const patterns = ['src/**/*.ts', 'src/**/*.tsx', 'src/**/*.js', 'src/**/*.jsx'];
+    // 扫描项目中所有源文件（包括工作区内的其他包）
+    const patterns = ['src/**/*.{ts,tsx,js,jsx,vue}'];
+    this.moduleResolver.getWorkspace().getPackages().forEach(pkg => {
+      const packageDir = path.relative(this.rootPath, pkg.dir).split(path.sep).join('/');
+      if (packageDir && !packageDir.startsWith('..')) {
+        patterns.push(`${packageDir}/**/*.{ts,tsx,js,jsx,vue}`);
+      }
+    });
     const { globby } = await import('globby');
-    const files = await globby(patterns, {
+    const matchedFiles = await globby(patterns, {
       cwd: this.rootPath,
-      ignore: ['node_modules/**', 'dist/**', 'build/**', '**/*.d.ts', '**/*.spec.*', '**/*.test.*'],
+      ignore: PRUNED_GLOBS,
       absolute: true,
     });
+    const ignoreMatcher = await IgnoreMatcher.load(this.rootPath, this.options.exclude);
+    const files = ignoreMatcher.filter(matchedFiles);
 
     const targetRelative = path.relative(this.rootPath, targetPath);
 
     for (const file of files) {
       if (file === targetPath) continue;
 
-      const sourceFile = this.project.addSourceFileAtPath(file);
+      const sourceFile = loadSourceFile(this.project, file);
       const importedItems: string[] = [];
       let usageCount = 0;
 
-      // 检查是否导入了目标文件
-      sourceFile.getImportDeclarations().forEach(importDecl => {
-        const moduleSpecifier = importDecl.getModuleSpecifierValue();
-        const resolvedPath = this.resolveImportPath(path.dirname(file), moduleSpecifier);
-        
+      let viaBarrel: string | undefined;
+
+      // 检查是否导入（或重导出）了目标文件
+      this.getModuleReferences(sourceFile).forEach(ref => {
+        const resolvedPath = this.resolveImportPath(file, ref.moduleSpecifier);
+        if (!resolvedPath) return;
+
         if (resolvedPath === targetPath) {
           // 统计导入项
-          const defaultImport = importDecl.getDefaultImport();
-          if (defaultImport) {
-            importedItems.push(defaultImport.getText());
-            usageCount++;
-          }
-          importDecl.getNamedImports().forEach(named => {
-            importedItems.push(named.getName());
-            usageCount++;
-          });
+          importedItems.push(...ref.names);
+          usageCount += ref.names.length;
+          return;
+        }
+
+        // 经 barrel 文件导入目标文件中定义的符号
+        const names = ref.symbols.filter(name => this.findSymbolSource(resolvedPath, name) === targetPath);
+        if (names.length > 0) {
+          importedItems.push(...names);
+          usageCount += names.length;
+          viaBarrel = path.relative(this.rootPath, resolvedPath);
         }
       });
 
       if (importedItems.length > 0) {
+        const hookUsage = this.extractHookUsage(sourceFile)
+          .map(usage => ({ ...usage, calls: usage.calls.filter(call => call.file === targetRelative) }))
+          .filter(usage => usage.calls.length > 0);
+
         dependents.push({
           filePath: file,
           relativePath: path.relative(this.rootPath, file),
           importedItems,
           usageCount,
+          viaBarrel,
+          hookUsage,
         });
       }
     }
@@ -289,68 +387,103 @@ export class DependencyTracer {
   }
 
   /**
-   * 解析导入路径
+   * 提取文件中各函数调用的 Hook（自定义 Hook 经 barrel 解析到定义文件）
    */
-  private resolveImportPath(currentDir: string, moduleSpecifier: string): string | null {
-    try {
-      // 移除路径别名（简单处理）
-      let specifier = moduleSpecifier;
-      if (specifier.startsWith('@/')) {
-        specifier = specifier.replace('@/', 'src/');
-        currentDir = this.rootPath;
-      }
-
-      const possibleExtensions = ['', '.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.tsx', '/index.js', '/index.jsx'];
-      
-      for (const ext of possibleExtensions) {
-        const fullPath = path.resolve(currentDir, specifier + ext);
-        if (fs.existsSync(fullPath)) {
-          return fullPath;
-        }
-      }
-    } catch (error) {
-      // 忽略解析错误
-    }
-    
-    return null;
+  private extractHookUsage(sourceFile: SourceFile): HookUsage[] {
+    const filePath = sourceFile.getFilePath();
+    return extractHookUsage(sourceFile, path.relative(this.rootPath, filePath), (moduleSpecifier, importName) => {
+      const resolvedPath = this.resolveImportPath(filePath, moduleSpecifier);
+      if (!resolvedPath) return undefined;
+      return path.relative(this.rootPath, this.findSymbolSource(resolvedPath, importName) ?? resolvedPath);
+    });
   }
 
   /**
-   * 判断文件类型
+   * 获取文件中对其他模块的全部引用
    */
-  private determineFileType(filePath: string): DependencyInfo['type'] {
-    const fileName = path.basename(filePath).toLowerCase();
-    const content = fs.readFileSync(filePath, 'utf-8');
+  private getModuleReferences(sourceFile: SourceFile): ModuleReference[] {
+    const references: ModuleReference[] = [];
 
-    // Hook
-    if (fileName.startsWith('use') && fileName.match(/use[A-Z]/)) {
-      return 'hook';
-    }
+    sourceFile.getImportDeclarations().forEach(decl => {
+      const names: string[] = [];
+      const defaultImport = decl.getDefaultImport();
+      if (defaultImport) {
+        names.push(defaultImport.getText());
+      }
+      const namespaceImport = decl.getNamespaceImport();
+      if (namespaceImport) {
+        names.push(`* as ${namespaceImport.getText()}`);
+      }
+      const namedImports = decl.getNamedImports().map(named => named.getName());
+      names.push(...namedImports);
+
+      references.push({
+        moduleSpecifier: decl.getModuleSpecifierValue(),
+        kind: 'static',
+        names,
+        symbols: defaultImport ? [...namedImports, 'default'] : namedImports,
+      });
+    });
 
-    // Component (JSX/TSX 或包含 React 组件)
-    if (filePath.endsWith('.tsx') || filePath.endsWith('.jsx')) {
-      return 'component';
-    }
-    if (content.includes('return (') && content.includes('<') && content.includes('/>')) {
-      return 'component';
-    }
+    // 重导出（export ... from）
+    sourceFile.getExportDeclarations().filter(decl => decl.hasModuleSpecifier()).forEach(decl => {
+      const namedExports = decl.getNamedExports().map(named => named.getName());
+      const namespaceExport = decl.getNamespaceExport()?.getName();
+      references.push({
+        moduleSpecifier: decl.getModuleSpecifierValue()!,
+        kind: 'static',
+        names: namedExports.length > 0 ? namedExports : [namespaceExport ? `* as ${namespaceExport}` : '*'],
+        symbols: [],
+      });
+    });
 
-    // Service
-    if (fileName.includes('service') || fileName.includes('api') || fileName.includes('client')) {
-      return 'service';
-    }
+    // 动态 import() 与 require()
+    findDynamicImports(sourceFile).forEach(dyn => {
+      const symbols = dyn.defaultImport ? [...dyn.namedImports, 'default'] : dyn.namedImports;
+      const names = dyn.defaultImport ? [dyn.defaultImport, ...dyn.namedImports] : dyn.namedImports;
+      references.push({
+        moduleSpecifier: dyn.moduleSpecifier,
+        kind: dyn.kind,
+        names: names.length > 0 ? names : [dyn.kind === 'dynamic' ? 'import()' : 'require()'],
+        symbols,
+      });
+    });
 
-    // Type
-    if (fileName.includes('type') || fileName.endsWith('.d.ts')) {
-      return 'type';
-    }
+    return references;
+  }
 
-    // Util
-    if (fileName.includes('util') || fileName.includes('helper') || fileName.includes('tool')) {
-      return 'util';
-    }
+  /**
+   * 沿 barrel 文件的重导出链查找导出名的实际定义文件
+   */
+  private findSymbolSource(filePath: string, name: string): string | undefined {
+    return findSymbolSource(filePath, name, file => {
+      if (!fs.existsSync(file)) return undefined;
+
+      const sourceFile = loadSourceFile(this.project, file);
+      const reExports = sourceFile.getExportDeclarations()
+        .filter(decl => decl.hasModuleSpecifier())
+        .map(decl => ({ resolvedPath: this.resolveImportPath(file, decl.getModuleSpecifierValue()!), reExport: readReExport(decl) }))
+        .filter((item): item is BarrelModule['reExports'][number] => !!item.resolvedPath);
+      return { exports: [...sourceFile.getExportedDeclarations().keys()], reExports };
+    });
+  }
 
-    return 'other';
+  /**
+   * 解析导入路径（支持 tsconfig paths 和打包工具别名）
+   */
+  private resolveImportPath(fromFile: string, moduleSpecifier: string): string | null {
+    const { isLocal, resolvedPath } = this.moduleResolver.resolve(moduleSpecifier, fromFile);
+    return isLocal && resolvedPath ? resolvedPath : null;
+  }
+
+  /**
+   * 文件角色（复用 scan 的识别逻辑，保证两者对同一文件的判断一致）
+   */
+  private getFileRole(filePath: string): FileRole | string {
+    if (!this.fileRoles.has(filePath)) {
+      this.fileRoles.set(filePath, this.roleScanner.getFileRole(filePath));
+    }
+    return this.fileRoles.get(filePath)!;
   }
 }
 
@@ -0,0 +1,251 @@
+import ignore, { Ignore } from 'ignore';
+import path from 'path';
+import fs from 'fs';
+import { FileAnalysis, FileRole, ProjectMap } from './scanner.js';
+import { findSymbolSource, BarrelModule } from './barrel.js';
+
+/**
+ * 默认入口文件（gitignore 语法，以 / 开头时相对项目根目录）
+ */
+export const DEFAULT_ENTRY_PATTERNS = [
+  '/index.*',
+  '/main.*',
+  '**/src/index.*',
+  '**/src/main.*',
+  '**/src/App.*',
+  '*.config.*',
+  '*.stories.*',
+  'middleware.*',
+  'instrumentation.*',
+];
+
+/**
+ * Next.js 由框架加载的约定文件
+ */
+const NEXT_CONVENTION_FILES = ['layout', 'template', 'loading', 'error', 'global-error', 'not-found', 'default', 'route', '_app', '_document', '_error'];
+
+/**
+ * 文件中的导出列表
+ */
+export interface FileExportsInfo {
+  file: string;
+  exports: string[];
+}
+
+/**
+ * 未使用代码报告
+ */
+export interface UnusedReport {
+  entries: string[];                    // 识别为入口的文件（导出视为已使用）
+  unusedExports: FileExportsInfo[];     // 从未被其他文件导入的导出
+  testOnlyExports: FileExportsInfo[];   // 仅被测试文件导入的导出
+  orphanFiles: string[];                // 没有任何文件依赖且不是入口的文件
+}
+
+/**
+ * 不在项目地图中的测试文件（默认忽略规则会排除 *.test.* / *.spec.*）
+ */
+export type TestFileImports = Pick<FileAnalysis, 'relativePath' | 'imports'>;
+
+type UsageKind = 'production' | 'test';
+
+/**
+ * 未使用导出与孤立文件检测
+ * 沿导入关系（含 barrel 重导出链）标记被使用的导出，入口文件的导出视为已使用
+ */
+export class UnusedAnalyzer {
+  private byPath: Map<string, FileAnalysis>;
+  private modules: Map<string, BarrelModule>;   // 按绝对路径索引，供 barrel 链查找
+  private usage = new Map<string, Map<string, Set<UsageKind>>>();
+  private entryMatcher: Ignore;
+
+  /**
+   * @param entries 额外的入口文件模式（gitignore 语法）
+   * @param testFiles 项目地图之外的测试文件，其导入计为测试使用
+   */
+  constructor(
+    private projectMap: ProjectMap,
+    entries: string[] = [],
+    private testFiles: TestFileImports[] = []
+  ) {
+    this.byPath = new Map(projectMap.files.map(file => [file.relativePath, file]));
+    this.modules = new Map(projectMap.files.map(file => [file.filePath, {
+      exports: file.exports,
+      reExports: file.imports
+        .filter(imp => imp.reExport && imp.resolvedPath)
+        .map(imp => ({ resolvedPath: imp.resolvedPath!, reExport: imp.reExport! })),
+    }]));
+
+    // 工作区包的 index 文件是包的公共 API
+    const packageDirs = (projectMap.workspacePackages ?? []).map(pkg => pkg.path);
+    const packageEntries = packageDirs.flatMap(dir => [`/${dir}/index.*`, `/${dir}/src/index.*`]);
+    const manifestEntries = ['', ...packageDirs].flatMap(dir => detectManifestEntries(projectMap.rootPath, dir));
+    this.entryMatcher = ignore().add([...DEFAULT_ENTRY_PATTERNS, ...packageEntries, ...manifestEntries, ...entries]);
+  }
+
+  analyze(): UnusedReport {
+    const entries = this.projectMap.files.filter(file => this.isEntry(file));
+    const entrySet = new Set(entries.map(file => file.relativePath));
+
+    entries.forEach(file => this.markAll(file.relativePath, 'production', new Set()));
+
+    this.projectMap.files.forEach(file => this.markImports(file, isTestFile(file) ? 'test' : 'production'));
+    this.testFiles
+      .filter(file => !this.byPath.has(file.relativePath))
+      .forEach(file => this.markImports(file, 'test'));
+
+    const unusedExports: FileExportsInfo[] = [];
+    const testOnlyExports: FileExportsInfo[] = [];
+    this.projectMap.files.forEach(file => {
+      if (entrySet.has(file.relativePath) || isTestFile(file)) return;
+
+      // 从其他文件重导出的名称只在定义文件中报告
+      const usage = this.usage.get(file.relativePath);
+      const ownExports = file.exports.filter(name => !this.isReExported(file, name));
+      const unused = ownExports.filter(name => !usage?.get(name)?.size);
+      const testOnly = ownExports.filter(name => {
+        const kinds = usage?.get(name);
+        return kinds?.has('test') && !kinds.has('production');
+      });
+
+      if (unused.length > 0) unusedExports.push({ file: file.relativePath, exports: unused });
+      if (testOnly.length > 0) testOnlyExports.push({ file: file.relativePath, exports: testOnly });
+    });
+
+    const dependents = new Set(
+      Object.entries(this.projectMap.dependencyGraph).flatMap(([file, deps]) => deps.filter(dep => dep !== file))
+    );
+    const orphanFiles = this.projectMap.files
+      .filter(file => !dependents.has(file.relativePath) && !entrySet.has(file.relativePath))
+      .map(file => file.relativePath);
+
+    return {
+      entries: [...entrySet],
+      unusedExports,
+      testOnlyExports,
+      orphanFiles,
+    };
+  }
+
+  /**
+   * 标记文件导入的导出被使用（重导出由 markUsed 沿链处理）
+   */
+  private markImports(file: TestFileImports, kind: UsageKind): void {
+    file.imports.forEach(imp => {
+      if (!imp.isLocal || !imp.resolvedPath || imp.reExport) return;
+      const target = path.relative(this.projectMap.rootPath, imp.resolvedPath);
+      if (!this.byPath.has(target) || target === file.relativePath) return;
+
+      const names = imp.defaultImport ? [...imp.namedImports, 'default'] : imp.namedImports;
+      if (names.length === 0) {
+        // 命名空间导入、副作用导入以及未解构的 require / import()
+        this.markAll(target, kind, new Set());
+      } else {
+        names.forEach(name => this.markUsed(target, name, kind, new Set()));
+      }
+    });
+  }
+
+  /**
+   * 标记导出被使用，并沿 barrel 文件的重导出链传递到定义文件
+   */
+  private markUsed(file: string, name: string, kind: UsageKind, visited: Set<string>): void {
+    const key = `${file}#${name}`;
+    const analysis = this.byPath.get(file);
+    if (!analysis || visited.has(key)) return;
+    visited.add(key);
+
+    const fileUsage = this.usage.get(file) ?? new Map<string, Set<UsageKind>>();
+    fileUsage.set(name, (fileUsage.get(name) ?? new Set()).add(kind));
+    this.usage.set(file, fileUsage);
+
+    analysis.imports.forEach(imp => {
+      if (!imp.reExport || !imp.isLocal || !imp.resolvedPath) return;
+      const target = path.relative(this.projectMap.rootPath, imp.resolvedPath);
+
+      const original = imp.reExport.names[name];
+      if (original === '*') {
+        this.markAll(target, kind, visited);
+      } else if (original) {
+        this.markUsed(target, original, kind, visited);
+      } else if (imp.reExport.all && name !== 'default' && this.byPath.get(target)?.exports.includes(name)) {
+        // export * 不包含 default 导出
+        this.markUsed(target, name, kind, visited);
+      }
+    });
+  }
+
+  /**
+   * 导出名是否定义在项目地图中的其他文件（经 barrel 重导出）
+   */
+  private isReExported(file: FileAnalysis, name: string): boolean {
+    const source = findSymbolSource(file.filePath, name, filePath => this.modules.get(filePath));
+    return !!source && source !== file.filePath && this.modules.has(source);
+  }
+
+  /**
+   * 标记文件的全部导出被使用
+   */
+  private markAll(file: string, kind: UsageKind, visited: Set<string>): void {
+    this.byPath.get(file)?.exports.forEach(name => this.markUsed(file, name, kind, visited));
+  }
+
+  /**
+   * 入口文件：测试与配置文件、框架加载的约定文件（Next.js 路由等）以及匹配入口模式的文件
+   */
+  private isEntry(file: FileAnalysis): boolean {
+    if (isTestFile(file) || file.role === FileRole.CONFIG || this.entryMatcher.ignores(file.relativePath)) {
+      return true;
+    }
+
+    const routes = this.projectMap.routes ?? [];
+    if (routes.some(route => route.source !== 'react-router' && (route.file === file.relativePath || route.layouts.includes(file.relativePath)))) {
+      return true;
+    }
+
+    // Next.js 约定文件与 API 路由（项目中存在 Next.js 路由时）
+    const segments = file.relativePath.split(path.sep);
+    const baseName = path.basename(file.relativePath).replace(/\.[^.]+$/, '');
+    const pagesIndex = segments.lastIndexOf('pages');
+    const hasNextRoutes = routes.some(route => route.source !== 'react-router');
+    return hasNextRoutes && (
+      ((segments.includes('app') || pagesIndex >= 0) && NEXT_CONVENTION_FILES.includes(baseName)) ||
+      (pagesIndex >= 0 && segments[pagesIndex + 1] === 'api')
+    );
+  }
+}
+
+/**
+ * 从 package.json 的 main / module / bin 与 index.html 的 <script src> 读取入口文件
+ * 返回忽略扩展名的入口模式（main 常指向构建产物，按同名源文件匹配）
+ */
+function detectManifestEntries(rootPath: string, dir: string): string[] {
+  const baseDir = path.join(rootPath, dir);
+  const targets: string[] = [];
+
+  try {
+    const manifest = JSON.parse(fs.readFileSync(path.join(baseDir, 'package.json'), 'utf-8'));
+    const bin = typeof manifest.bin === 'string' ? [manifest.bin] : Object.values(manifest.bin ?? {});
+    targets.push(...[manifest.main, manifest.module, ...bin].filter((value): value is string => typeof value === 'string'));
+  } catch {
+    // 没有或无法解析 package.json
+  }
+
+  const htmlFile = path.join(baseDir, 'index.html');
+  if (fs.existsSync(htmlFile)) {
+    const html = fs.readFileSync(htmlFile, 'utf-8');
+    for (const match of html.matchAll(/<script\b[^>]*\bsrc=["']([^"']+)["']/gi)) {
+      targets.push(match[1]);
+    }
+  }
+
+  return targets
+    .filter(target => !/^([a-z]+:)?\/\//i.test(target))
+    .map(target => path.posix.join(dir.split(path.sep).join('/'), target.replace(/^\//, '')))
+    .filter(target => !target.startsWith('..'))
+    .map(target => `/${target.replace(/\.[^./]+$/, '')}.*`);
+}
+
+function isTestFile(file: FileAnalysis): boolean {
+  return file.role === FileRole.TEST;
+}
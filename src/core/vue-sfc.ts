@@ -0,0 +1,143 @@
+import { SourceFile, SyntaxKind, Node, CallExpression, TypeNode, TypeElementTypes, ts } from 'ts-morph';
+
+/**
+ * Vue 单文件组件中提取出的脚本
+ */
+export interface VueScript {
+  code: string;               // 仅保留 <script> 内容，其余位置替换为空白（行列号与原文件一致）
+  scriptKind: ts.ScriptKind;
+  hasSetup: boolean;          // 是否包含 <script setup>
+}
+
+/**
+ * defineProps / defineEmits 声明
+ */
+export interface VueMacros {
+  props: string[];
+  emits: string[];
+}
+
+const SCRIPT_BLOCK_REGEX = /(<script\b([^>]*)>)([\s\S]*?)<\/script>/gi;
+
+/**
+ * 提取 .vue 文件中的 <script> 和 <script setup> 块
+ */
+export function extractVueScript(content: string): VueScript {
+  // 非脚本区域替换为空白，保留换行，保证 AST 中的行号与原文件对应
+  const chars = content.replace(/[^\n]/g, ' ').split('');
+  let lang = 'js';
+  let hasSetup = false;
+
+  for (const match of content.matchAll(SCRIPT_BLOCK_REGEX)) {
+    const [, openTag, attributes, body] = match;
+    const bodyStart = match.index! + openTag.length;
+    for (let i = 0; i < body.length; i++) {
+      chars[bodyStart + i] = body[i];
+    }
+
+    const langMatch = attributes.match(/\blang\s*=\s*["']?(\w+)/);
+    if (langMatch) {
+      lang = langMatch[1];
+    }
+    if (/\bsetup\b/.test(attributes)) {
+      hasSetup = true;
+    }
+  }
+
+  return {
+    code: chars.join(''),
+    scriptKind: getScriptKind(lang),
+    hasSetup,
+  };
+}
+
+/**
+ * 提取 defineProps / defineEmits 声明的名称
+ * 支持类型参数（类型字面量、同文件的 interface / type）、数组和对象写法
+ */
+export function extractVueMacros(sourceFile: SourceFile): VueMacros {
+  const macros: VueMacros = { props: [], emits: [] };
+
+  sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression).forEach(call => {
+    const macroName = call.getExpression().getText();
+    if (macroName !== 'defineProps' && macroName !== 'defineEmits') return;
+
+    const target = macroName === 'defineProps' ? macros.props : macros.emits;
+    readMacroNames(call, macroName === 'defineEmits').forEach(name => {
+      if (!target.includes(name)) target.push(name);
+    });
+  });
+
+  return macros;
+}
+
+function getScriptKind(lang: string): ts.ScriptKind {
+  switch (lang) {
+    case 'ts': return ts.ScriptKind.TS;
+    case 'tsx': return ts.ScriptKind.TSX;
+    case 'jsx': return ts.ScriptKind.JSX;
+    default: return ts.ScriptKind.JS;
+  }
+}
+
+function readMacroNames(call: CallExpression, isEmits: boolean): string[] {
+  const [typeArg] = call.getTypeArguments();
+  if (typeArg) {
+    return readTypeMembers(typeArg).flatMap(member => readMemberNames(member, isEmits));
+  }
+
+  const [arg] = call.getArguments();
+  if (arg && Node.isArrayLiteralExpression(arg)) {
+    return arg.getElements()
+      .filter(el => Node.isStringLiteral(el))
+      .map(el => el.getText().slice(1, -1));
+  }
+  if (arg && Node.isObjectLiteralExpression(arg)) {
+    return arg.getProperties()
+      .filter(prop => Node.isPropertyAssignment(prop) || Node.isShorthandPropertyAssignment(prop) || Node.isMethodDeclaration(prop))
+      .map(prop => unquote((prop as { getName(): string }).getName()));
+  }
+  return [];
+}
+
+/**
+ * 读取类型参数的成员（类型字面量或同文件声明的 interface / type）
+ */
+function readTypeMembers(typeNode: TypeNode): TypeElementTypes[] {
+  if (Node.isTypeLiteral(typeNode)) {
+    return typeNode.getMembers();
+  }
+  if (Node.isTypeReference(typeNode)) {
+    const name = typeNode.getTypeName().getText();
+    const sourceFile = typeNode.getSourceFile();
+    const iface = sourceFile.getInterface(name);
+    if (iface) {
+      return iface.getMembers();
+    }
+    const aliasType = sourceFile.getTypeAlias(name)?.getTypeNode();
+    if (aliasType) {
+      return readTypeMembers(aliasType);
+    }
+  }
+  return [];
+}
+
+function readMemberNames(member: TypeElementTypes, isEmits: boolean): string[] {
+  if (Node.isPropertySignature(member) || Node.isMethodSignature(member)) {
+    return [unquote(member.getName())];
+  }
+
+  // defineEmits<{ (e: 'change', id: number): void }>()
+  if (isEmits && Node.isCallSignatureDeclaration(member)) {
+    const eventType = member.getParameters()[0]?.getTypeNode();
+    const literals = eventType && Node.isUnionTypeNode(eventType) ? eventType.getTypeNodes() : eventType ? [eventType] : [];
+    return literals
+      .filter(node => Node.isLiteralTypeNode(node))
+      .map(node => unquote(node.getText()));
+  }
+  return [];
+}
+
+function unquote(value: string): string {
+  return value.replace(/^['"`]|['"`]$/g, '');
+}
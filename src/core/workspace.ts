@@ -0,0 +1,339 @@
+import { globbySync } from 'globby';
+import path from 'path';
+import fs from 'fs';
+
+/**
+ * package.json 中与入口解析相关的字段
+ */
+interface PackageManifest {
+  name?: string;
+  main?: string;
+  module?: string;
+  types?: string;
+  typings?: string;
+  source?: string;
+  exports?: unknown;
+  workspaces?: string[] | { packages?: string[] };
+}
+
+/**
+ * 工作区内部包
+ */
+export interface WorkspacePackage {
+  name: string;
+  dir: string;                // 包目录（绝对路径）
+  manifest: PackageManifest;
+}
+
+/**
+ * 工作区包的简要信息（写入项目地图）
+ */
+export interface WorkspacePackageInfo {
+  name: string;
+  path: string;               // 相对项目根目录的包目录
+}
+
+/**
+ * exports 条件的优先级（源码优先，其次是类型声明和 ESM 入口）
+ */
+const EXPORT_CONDITIONS = ['source', 'development', 'types', 'import', 'module', 'browser', 'default', 'node', 'require'];
+
+/**
+ * 构建产物目录（入口指向这些目录时尝试映射回 src）
+ */
+const BUILD_DIRS = ['dist', 'lib', 'build', 'es', 'esm', 'cjs', 'out'];
+
+/**
+ * 工作区解析器
+ * 读取 pnpm-workspace.yaml 或 package.json 的 workspaces 字段，
+ * 将对内部包的导入（如 @acme/ui）解析到包的源码文件
+ */
+export class WorkspaceResolver {
+  private packages: WorkspacePackage[] = [];
+
+  constructor(private rootPath: string) {
+    const workspaceRoot = this.findWorkspaceRoot();
+    if (workspaceRoot) {
+      this.packages = this.loadPackages(workspaceRoot);
+    }
+  }
+
+  /**
+   * 获取所有工作区包
+   */
+  getPackages(): WorkspacePackage[] {
+    return this.packages;
+  }
+
+  /**
+   * 查找文件所属的工作区包（取最深的包目录）
+   */
+  getPackageForFile(filePath: string): WorkspacePackage | undefined {
+    let result: WorkspacePackage | undefined;
+    for (const pkg of this.packages) {
+      if (filePath.startsWith(pkg.dir + path.sep) && (!result || pkg.dir.length > result.dir.length)) {
+        result = pkg;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 匹配模块标识符对应的工作区包
+   */
+  matchPackage(moduleSpecifier: string): { pkg: WorkspacePackage; subpath: string } | undefined {
+    for (const pkg of this.packages) {
+      if (moduleSpecifier === pkg.name) {
+        return { pkg, subpath: '.' };
+      }
+      if (moduleSpecifier.startsWith(pkg.name + '/')) {
+        return { pkg, subpath: '.' + moduleSpecifier.slice(pkg.name.length) };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 解析包内入口文件
+   * @param resolveFile 补全扩展名的文件解析函数
+   */
+  resolveEntry(
+    pkg: WorkspacePackage,
+    subpath: string,
+    resolveFile: (basePath: string) => string | undefined
+  ): string | undefined {
+    const candidates: string[] = [];
+
+    const exported = this.resolveExports(pkg.manifest.exports, subpath);
+    if (exported) {
+      candidates.push(exported);
+    }
+
+    if (subpath === '.') {
+      const { source, types, typings, module, main } = pkg.manifest;
+      [source, types, typings, module, main].forEach(entry => {
+        if (entry) candidates.push(entry);
+      });
+      candidates.push('./src/index', './index');
+    } else {
+      candidates.push(subpath, `./src/${subpath.slice(2)}`);
+    }
+
+    for (const candidate of candidates) {
+      const absolutePath = path.resolve(pkg.dir, candidate);
+
+      // 优先映射回源码（dist/index.js -> src/index.ts）
+      const sourcePath = this.mapToSource(pkg.dir, absolutePath);
+      const resolvedSource = sourcePath ? resolveFile(sourcePath) : undefined;
+      if (resolvedSource) {
+        return resolvedSource;
+      }
+
+      if (!absolutePath.endsWith('.d.ts')) {
+        const resolved = resolveFile(absolutePath);
+        if (resolved) {
+          return resolved;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 解析 exports 字段
+   */
+  private resolveExports(exportsField: unknown, subpath: string): string | undefined {
+    if (!exportsField) return undefined;
+
+    if (typeof exportsField === 'string') {
+      return subpath === '.' ? exportsField : undefined;
+    }
+
+    if (typeof exportsField !== 'object' || Array.isArray(exportsField)) {
+      return undefined;
+    }
+
+    const entries = exportsField as Record<string, unknown>;
+    const hasSubpathKeys = Object.keys(entries).some(key => key.startsWith('.'));
+
+    // 仅包含条件的写法：{ import: ..., require: ... }
+    if (!hasSubpathKeys) {
+      return subpath === '.' ? this.pickCondition(entries) : undefined;
+    }
+
+    if (entries[subpath] !== undefined) {
+      return this.pickCondition(entries[subpath]);
+    }
+
+    // 通配写法：{ "./*": "./src/*.ts" }
+    for (const [key, value] of Object.entries(entries)) {
+      const starIndex = key.indexOf('*');
+      if (starIndex < 0) continue;
+      const prefix = key.slice(0, starIndex);
+      const suffix = key.slice(starIndex + 1);
+      if (subpath.startsWith(prefix) && subpath.endsWith(suffix)) {
+        const matched = subpath.slice(prefix.length, subpath.length - suffix.length);
+        return this.pickCondition(value)?.replace('*', matched);
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 按条件优先级选取 exports 目标
+   */
+  private pickCondition(value: unknown): string | undefined {
+    if (typeof value === 'string') return value;
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        const picked = this.pickCondition(item);
+        if (picked) return picked;
+      }
+      return undefined;
+    }
+    if (value && typeof value === 'object') {
+      const conditions = value as Record<string, unknown>;
+      for (const condition of EXPORT_CONDITIONS) {
+        if (conditions[condition] !== undefined) {
+          const picked = this.pickCondition(conditions[condition]);
+          if (picked) return picked;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 将构建产物路径映射为源码路径（去掉扩展名，由调用方补全）
+   */
+  private mapToSource(pkgDir: string, absolutePath: string): string | undefined {
+    const relative = path.relative(pkgDir, absolutePath).split(path.sep);
+    if (!BUILD_DIRS.includes(relative[0])) {
+      return undefined;
+    }
+
+    relative[0] = 'src';
+    const mapped = path.join(pkgDir, ...relative);
+    return mapped.replace(/\.d\.ts$|\.(c|m)?js$/, '');
+  }
+
+  /**
+   * 从项目根目录向上查找工作区根目录
+   */
+  private findWorkspaceRoot(): string | undefined {
+    let dir = this.rootPath;
+
+    while (true) {
+      if (fs.existsSync(path.join(dir, 'pnpm-workspace.yaml'))) {
+        return dir;
+      }
+      const manifest = this.readManifest(dir);
+      if (manifest?.workspaces) {
+        return dir;
+      }
+
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        return undefined;
+      }
+      dir = parent;
+    }
+  }
+
+  /**
+   * 读取工作区内的所有包
+   */
+  private loadPackages(workspaceRoot: string): WorkspacePackage[] {
+    const patterns = this.readWorkspacePatterns(workspaceRoot);
+    if (patterns.length === 0) return [];
+
+    const manifestPatterns = patterns.map(pattern => {
+      const negated = pattern.startsWith('!');
+      const base = (negated ? pattern.slice(1) : pattern).replace(/\/+$/, '');
+      return `${negated ? '!' : ''}${base}/package.json`;
+    });
+
+    const manifestFiles = globbySync(manifestPatterns, {
+      cwd: workspaceRoot,
+      ignore: ['**/node_modules/**'],
+      absolute: true,
+    });
+
+    const packages: WorkspacePackage[] = [];
+    for (const manifestFile of manifestFiles.sort()) {
+      const dir = path.dirname(manifestFile);
+      const manifest = this.readManifest(dir);
+      if (manifest?.name) {
+        packages.push({ name: manifest.name, dir, manifest });
+      }
+    }
+
+    // 名称较长的包优先匹配（@acme/ui-kit 先于 @acme/ui）
+    return packages.sort((a, b) => b.name.length - a.name.length);
+  }
+
+  /**
+   * 读取工作区包路径模式
+   */
+  private readWorkspacePatterns(workspaceRoot: string): string[] {
+    const pnpmWorkspaceFile = path.join(workspaceRoot, 'pnpm-workspace.yaml');
+    if (fs.existsSync(pnpmWorkspaceFile)) {
+      return this.parsePnpmWorkspace(fs.readFileSync(pnpmWorkspaceFile, 'utf-8'));
+    }
+
+    const workspaces = this.readManifest(workspaceRoot)?.workspaces;
+    if (Array.isArray(workspaces)) {
+      return workspaces;
+    }
+    return workspaces?.packages || [];
+  }
+
+  /**
+   * 解析 pnpm-workspace.yaml 中的 packages 列表
+   */
+  private parsePnpmWorkspace(content: string): string[] {
+    const patterns: string[] = [];
+    let inPackages = false;
+
+    for (const rawLine of content.split('\n')) {
+      const line = rawLine.replace(/\s+#.*$/, '').trimEnd();
+      if (!line.trim() || line.trim().startsWith('#')) continue;
+
+      if (/^packages\s*:/.test(line)) {
+        inPackages = true;
+        // 行内写法：packages: ['apps/*', 'packages/*']
+        const inline = line.match(/\[(.*)\]/);
+        if (inline) {
+          patterns.push(...inline[1].split(',').map(item => this.unquote(item)).filter(Boolean));
+          inPackages = false;
+        }
+        continue;
+      }
+
+      if (inPackages) {
+        const item = line.match(/^\s*-\s*(.+)$/);
+        if (item) {
+          patterns.push(this.unquote(item[1]));
+        } else if (!/^\s/.test(line)) {
+          inPackages = false;
+        }
+      }
+    }
+
+    return patterns;
+  }
+
+  private unquote(value: string): string {
+    return value.trim().replace(/^['"]|['"]$/g, '');
+  }
+
+  private readManifest(dir: string): PackageManifest | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+}
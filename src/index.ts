@@ -5,6 +5,12 @@ import { createScanCommand } from './commands/scan.js';
 import { createTaskCommand } from './commands/task.js';
 import { createTraceCommand } from './commands/trace.js';
 import { createDiffCommand } from './commands/diff.js';
+import { createInitCommand } from './commands/init.js';
+import { createTreeCommand } from './commands/tree.js';
+import { createPackagesCommand } from './commands/packages.js';
+import { createCyclesCommand } from './commands/cycles.js';
+import { createUnusedCommand } from './commands/unused.js';
+import { createCheckCommand } from './commands/check.js';
 
 const program = new Command();
 
@@ -14,19 +20,31 @@ program
   .version('1.0.0');
 
 // 注册命令
+program.addCommand(createInitCommand());
 program.addCommand(createScanCommand());
 program.addCommand(createTaskCommand());
 program.addCommand(createTraceCommand());
 program.addCommand(createDiffCommand());
+program.addCommand(createTreeCommand());
+program.addCommand(createPackagesCommand());
+program.addCommand(createCyclesCommand());
+program.addCommand(createUnusedCommand());
+program.addCommand(createCheckCommand());
 
 // 显示帮助信息
 program.on('--help', () => {
   console.log('');
   console.log('Examples:');
+  console.log('  $ ai-pilot init                        # 生成配置文件');
   console.log('  $ ai-pilot scan                        # 扫描项目');
   console.log('  $ ai-pilot task "添加登录功能"         # 生成任务文档');
   console.log('  $ ai-pilot trace src/utils/auth.ts     # 分析依赖关系');
   console.log('  $ ai-pilot diff                        # 分析 Git 变更');
+  console.log('  $ ai-pilot tree Button                 # 查看组件渲染层级');
+  console.log('  $ ai-pilot packages                    # 第三方包使用报告');
+  console.log('  $ ai-pilot cycles                      # 检测循环依赖');
+  console.log('  $ ai-pilot unused                      # 检测未使用的导出与孤立文件');
+  console.log('  $ ai-pilot check                       # 检查依赖边界规则');
   console.log('');
 });
 